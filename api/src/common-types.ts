@@ -21,7 +21,7 @@
 
 import { type MidnightProviders } from '@midnight-ntwrk/midnight-js-types';
 import { type FoundContract } from '@midnight-ntwrk/midnight-js-contracts';
-import type { State, InvoicePrivateState, Contract, Witnesses } from '../../contract/src/index';
+import type { State, InvoicePrivateState, Receipt, Contract, Witnesses } from '../../contract/src/index';
 
 export const invoicePrivateStateKey = 'invoicePrivateState';
 export type PrivateStateId = typeof invoicePrivateStateKey;
@@ -77,6 +77,210 @@ export type InvoiceProviders = MidnightProviders<InvoiceCircuitKeys, PrivateStat
  */
 export type DeployedInvoiceContract = FoundContract<InvoiceContract>;
 
+/**
+ * A payee's share of the payments towards an invoice.
+ */
+export type PayeeSplit = {
+  /** The hex-encoded coin public key the share is paid to. */
+  readonly payee: string;
+
+  /** The share of each payment, in basis points (`10000` is 100%). */
+  readonly share: number;
+};
+
+/**
+ * The early-payment discount and late fee terms of an invoice, as stated in its invoice document.
+ *
+ * @remarks
+ * "2/10 net 30", for instance, is a `discount` of `200` until ten days after issue, with the invoice due
+ * after thirty days.
+ */
+export type PaymentTermsData = {
+  /** The discount taken off payments made by {@link discountUntil}, in basis points, or `0` for none. */
+  readonly discount: number;
+
+  /** The date and time (ISO 8601) by which payment earns the discount; required with a discount. */
+  readonly discountUntil?: string;
+
+  /** The fee added to payments made after the due date, in basis points, or `0` for none. */
+  readonly lateFee: number;
+};
+
+/**
+ * The early-payment discount and late fee terms of an invoice, as recorded on the ledger.
+ */
+export type PaymentTermsDerivedState = {
+  /** The discount taken off payments made before {@link discountUntil}, in basis points. */
+  readonly discount: number;
+
+  /** The date payment must be made by to earn the discount, or `undefined` without a discount. */
+  readonly discountUntil: Date | undefined;
+
+  /** The fee added to payments made after the due date, in basis points. */
+  readonly lateFee: number;
+};
+
+/**
+ * The schedule of a subscription, as recorded on the ledger.
+ */
+export type SubscriptionSchedule = {
+  /** The cycle currently being billed, counting from 1. */
+  readonly cycle: number;
+
+  /** The number of cycles the subscription bills in total. */
+  readonly count: number;
+
+  /** The number of days between the due dates of consecutive cycles. */
+  readonly periodDays: number;
+};
+
+/**
+ * A cycle of a subscription, i.e. one of the invoices it bills under the invoice id of the subscription.
+ */
+export type SubscriptionCycle = {
+  /** The hex-encoded invoice id the subscription is keyed by. */
+  readonly invoiceId: string;
+
+  /** The sequence number the cycle was issued with. */
+  readonly sequence: bigint;
+
+  /** The invoice number of the cycle; cycles after the first add the number of the cycle to the first one's. */
+  readonly number: string;
+
+  /** The number of the cycle, counting from 1. */
+  readonly cycle: number;
+
+  /** The number of cycles the subscription bills in total. */
+  readonly count: number;
+
+  readonly amount: bigint;
+  readonly dueAt: Date;
+};
+
+/**
+ * The scheme the invoice numbers of a contract are allocated by.
+ *
+ * @remarks
+ * A number is made of the prefix, the year when numbering restarts every year, and a running number
+ * padded to the given number of digits, separated by dashes. The defaults make numbers like `INV-2026-0001`.
+ */
+export type InvoiceNumbering = {
+  /** The text every invoice number starts with. */
+  readonly prefix: string;
+
+  /** A readonly flag that determines if the running number restarts from `1` every calendar year. */
+  readonly yearly: boolean;
+
+  /** The number of digits the running number is padded to. */
+  readonly digits: number;
+};
+
+/** The invoice numbering used unless another is given, making numbers like `INV-2026-0001`. */
+export const defaultInvoiceNumbering: InvoiceNumbering = { prefix: 'INV', yearly: true, digits: 4 };
+
+/**
+ * A milestone of an escrow invoice, as described in its invoice document.
+ */
+export type MilestoneData = {
+  /** What has to be delivered to complete the milestone. */
+  readonly title: string;
+
+  /** The amount released to the issuer on completion, as a decimal string. */
+  readonly amount: string;
+};
+
+/**
+ * A milestone of an escrow invoice, combining its description with its progress on the ledger.
+ */
+export type MilestoneDerivedState = {
+  /** The index of the milestone, counting from 0, by which it is approved and released. */
+  readonly index: number;
+
+  /** The title of the milestone, if the invoice document is known. */
+  readonly title: string | undefined;
+
+  readonly amount: bigint;
+
+  /** A readonly flag that determines if the buyer has approved the milestone as complete. */
+  readonly approved: boolean;
+
+  /** A readonly flag that determines if the amount of the milestone has been released to the issuer. */
+  readonly released: boolean;
+};
+
+/**
+ * A credit note document, correcting an invoice that was over-billed.
+ *
+ * @remarks
+ * Like an invoice document, only its hash is recorded on the ledger, next to the reference to the
+ * invoice, the amount credited and the reason.
+ */
+export type CreditNoteData = {
+  readonly type: 'credit-note';
+
+  /** The hex-encoded id of the invoice the credit note corrects. */
+  readonly invoiceId: string;
+
+  /** The sequence number of the invoice the credit note corrects, as a decimal string. */
+  readonly sequence: string;
+
+  /** The hex-encoded hash of the document of the invoice the credit note corrects. */
+  readonly invoiceDocHash: string;
+
+  /** The amount credited, as a decimal string. */
+  readonly amount: string;
+
+  readonly reason: string;
+  readonly issuedAt: string;
+};
+
+/**
+ * An adjustment of the amount of an invoice, as recorded on the ledger by a credit note.
+ */
+export type AdjustmentDerivedState = {
+  /** The hex-encoded id of the credit note. */
+  readonly id: string;
+
+  /** The hex-encoded hash of the credit note document. */
+  readonly docHash: string;
+
+  /** The adjustment to the amount of the invoice, which is negative for a credit note. */
+  readonly amount: bigint;
+
+  readonly reason: string;
+};
+
+/**
+ * An assignment of the receivable of an invoice to another payee, as recorded on the ledger.
+ */
+export type AssignmentDerivedState = {
+  /** The position of the assignment in the history of the invoice, starting at `1`. */
+  readonly index: number;
+
+  /** The hex-encoded coin public key payments were made to before the assignment. */
+  readonly from: string;
+
+  /** The hex-encoded coin public key payments are made to since the assignment. */
+  readonly to: string;
+};
+
+/**
+ * A version of an invoice that has since been revised, as recorded on the ledger.
+ */
+export type RevisionDerivedState = {
+  /** The version number, starting at `0` for the invoice as first issued. */
+  readonly revision: number;
+
+  /** The amount of the invoice in this version. */
+  readonly amount: bigint;
+
+  /** The hex-encoded hash of the invoice document in this version. */
+  readonly docHash: string;
+
+  /** The invoice document of this version, if it is held in the local document store. */
+  readonly invoiceData: InvoiceData | undefined;
+};
+
 /**
  * Invoice data structure for JSON encoding
  */
@@ -84,27 +288,349 @@ export type InvoiceData = {
   readonly title: string;
   readonly description: string;
   readonly issuedAt: string;
+
+  /** The time the invoice was last revised, in ISO 8601 format; set by `reviseInvoice`. */
+  readonly revisedAt?: string;
+
+  /** The name the token the invoice is paid in is shown by, e.g. `'NIGHT'` for the native token. */
   readonly currency: string;
+
+  /**
+   * The token the invoice is paid in, as a `TokenType`, or the native token if omitted.
+   *
+   * @remarks
+   * The token type is recorded on the ledger as well, where every payment is checked against it.
+   */
+  readonly tokenType?: string;
+
+  /**
+   * The payees each payment is split between, if the invoice is not paid to the issuer alone.
+   *
+   * @remarks
+   * The shares must add up to 100%. The split is recorded on the ledger as well, where it decides where
+   * payments go.
+   */
+  readonly split?: readonly PayeeSplit[];
+
+  /**
+   * The early-payment discount and late fee terms, if any.
+   *
+   * @remarks
+   * The terms are recorded on the ledger as well, where every payment is checked against them at the
+   * time of the block it is made in.
+   */
+  readonly terms?: PaymentTermsData;
+
+  /**
+   * The milestones an escrow invoice is released in, in order.
+   *
+   * @remarks
+   * The milestone amounts must add up to the invoice amount.
+   */
+  readonly milestones?: readonly MilestoneData[];
+};
+
+/**
+ * A member of the issuer's team and the roles they hold, as recorded on the ledger.
+ */
+export type TeamMemberDerivedState = {
+  /** The hex-encoded member commitment the roles are recorded under. */
+  readonly key: string;
+
+  /** A readonly flag that determines if the member can add and remove team members. */
+  readonly admin: boolean;
+
+  /** A readonly flag that determines if the member can issue and manage invoices. */
+  readonly issuer: boolean;
+
+  /** A readonly flag that determines if the member can cancel invoices and subscriptions. */
+  readonly canceller: boolean;
+
+  /** A readonly flag that determines if this is the current user. */
+  readonly isSelf: boolean;
 };
 
 /**
- * A type that represents the derived combination of public (or ledger), and private state.
+ * A type that represents the derived combination of public (or ledger), and private state
+ * for a single invoice.
  */
 export type InvoiceDerivedState = {
+  /** The hex-encoded invoice id the invoice is keyed by on the ledger. */
+  readonly id: string;
+
+  /** The hex-encoded hash of the invoice document, as recorded on the ledger. */
+  readonly docHash: string;
+
+  /**
+   * The human-readable invoice number, as recorded on the ledger.
+   *
+   * @remarks
+   * The contract never accepts a number twice, even once the invoice has been removed. Cycles of a subscription
+   * after the first add the number of the cycle to the first one's, e.g. `INV-2026-0001-2`.
+   */
+  readonly number: string;
+
   readonly state: State;
   readonly sequence: bigint;
   readonly amount: bigint;
-  readonly invoiceData: InvoiceData | undefined;
+
+  /** The token the invoice is paid in, as a `TokenType`, as recorded on the ledger. */
+  readonly tokenType: string;
+
+  /** The total paid towards the invoice so far, across all installments. */
+  readonly paidAmount: bigint;
+
+  /**
+   * The total the buyer was actually charged for {@link paidAmount}, after any discounts and late fees.
+   *
+   * @remarks
+   * A refund returns exactly this amount.
+   */
+  readonly chargedAmount: bigint;
+
+  /** The amount still to be paid, i.e. `amount - paidAmount`. */
+  readonly outstanding: bigint;
+
+  /**
+   * The amount to pay now to settle {@link outstanding}, after any discount or late fee.
+   *
+   * @remarks
+   * Worked out against the current time; the contract works it out again against the time of the block
+   * the payment is made in. It is less than {@link outstanding} within the discount period, and more once
+   * the due date has passed if the invoice charges a late fee.
+   */
+  readonly amountDueNow: bigint;
+
+  /** The early-payment discount and late fee terms, or `undefined` if the invoice has none. */
+  readonly terms: PaymentTermsDerivedState | undefined;
+
+  /** The date payment is due by, as recorded on the ledger. */
+  readonly dueAt: Date;
+
+  /**
+   * A readonly flag that determines if the invoice is overdue.
+   *
+   * @remarks
+   * `true` once the invoice has been marked {@link State.OVERDUE}, and also for an unpaid invoice whose
+   * due date has passed but which nobody has marked overdue yet.
+   */
+  readonly isOverdue: boolean;
+
+  /** A readonly flag that determines if any payment towards the invoice was made after its due date. */
+  readonly paidLate: boolean;
+
+  /** The reason the issuer gave for cancelling the invoice, if it has been cancelled. */
+  readonly cancelReason: string | undefined;
+
+  /** The reason the buyer gave for disputing the invoice, if it has been disputed. */
+  readonly disputeReason: string | undefined;
+
+  /**
+   * The hex-encoded hash of the quote document the buyer accepted, if the invoice was issued from a quote.
+   *
+   * @remarks
+   * A quote is issued in {@link State.QUOTED} and can't be paid until the buyer has accepted it, moving it to
+   * {@link State.ACCEPTED}, and the issuer has then issued it as an invoice. The hash is recorded by the
+   * buyer's own proof, so it shows the buyer agreed to the amount and terms of the document.
+   */
+  readonly acceptedDocHash: string | undefined;
+
+  /**
+   * The credit notes issued against the invoice, in no particular order.
+   *
+   * @remarks
+   * A credit note against an unpaid invoice has already been taken off {@link amount}; one against a paid
+   * invoice is only recorded. Only the credit notes for the current {@link sequence} are listed, so each
+   * cycle of a subscription has adjustments of its own.
+   */
+  readonly adjustments: readonly AdjustmentDerivedState[];
+
+  /**
+   * The total of the credit notes issued against the invoice once it was paid.
+   *
+   * @remarks
+   * It can't exceed {@link paidAmount}, so a paid invoice can only be credited up to what was paid for it.
+   */
+  readonly credited: bigint;
+
+  /**
+   * The hex-encoded coin public key payments are sent to, unless they are split between {@link split} payees.
+   *
+   * @remarks
+   * This is the coin public key of the issuer, unless the issuer has assigned the receivable to another payee,
+   * such as a factor, with `assignReceivable`.
+   */
+  readonly payee: string;
+
+  /**
+   * The assignments of the receivable of the invoice, oldest first.
+   *
+   * @remarks
+   * The payee carries over to each new cycle of a subscription, so assignments made in earlier cycles are
+   * listed as well.
+   */
+  readonly assignments: readonly AssignmentDerivedState[];
+
+  /** The version number of the invoice, which is `0` until the issuer revises it. */
+  readonly revision: number;
+
+  /**
+   * The earlier versions of the invoice, oldest first.
+   *
+   * @remarks
+   * Each revision replaces the amount and document of the invoice, and the version it replaces is recorded
+   * on the ledger linked to the one before it by its hash. Compare {@link amount} and {@link invoiceData}
+   * with the last of them to see what the latest revision changed.
+   */
+  readonly revisions: readonly RevisionDerivedState[];
+
+  /**
+   * A readonly flag that determines if the buyer has acknowledged the latest revision of the invoice.
+   *
+   * @remarks
+   * `true` for an invoice that has never been revised. A revised invoice can't be paid until the buyer has
+   * acknowledged it with `acknowledgeRevision`.
+   */
+  readonly acknowledged: boolean;
+
+  /**
+   * The invoice document, if it is held in the local document store or could be decrypted from the ledger.
+   *
+   * @remarks
+   * Only the document hash is recorded on the ledger. The issuer keeps the document when issuing, and
+   * the buyer once a document delivered off-chain has been verified against the hash.
+   *
+   * A document may instead be recorded encrypted to the buyer's encryption key, in which case it is
+   * decrypted transparently for the buyer. For anyone else it is reported as `'encrypted'`.
+   */
+  readonly invoiceData: InvoiceData | 'encrypted' | undefined;
+
+  /**
+   * The receipt the current user holds for their latest payment towards the current cycle of this invoice,
+   * if any.
+   *
+   * @remarks
+   * A receipt is kept as soon as the current user pays. For payments made before receipts were kept, a receipt
+   * for the payment that brought the paid amount to {@link paidAmount} can be exported by the buyer who made it.
+   */
+  readonly receipt: Receipt | undefined;
+
+  /** The payees each payment is split between, as recorded on the ledger, or `undefined` if the issuer is paid. */
+  readonly split: readonly PayeeSplit[] | undefined;
+
+  /**
+   * The milestones of an escrow invoice, or `undefined` if the invoice is paid directly.
+   *
+   * @remarks
+   * The buyer funds an escrow invoice in full with `fund`, which moves it to {@link State.ESCROWED}. Each
+   * milestone is then approved by the buyer and released to the issuer, and the invoice is paid once every
+   * milestone has been released.
+   */
+  readonly milestones: readonly MilestoneDerivedState[] | undefined;
+
+  /**
+   * The schedule of the subscription the invoice is a cycle of, or `undefined` if it is a one-off invoice.
+   *
+   * @remarks
+   * Paying a cycle in full issues the next one under the same id, until the last cycle has been billed.
+   */
+  readonly subscription: SubscriptionSchedule | undefined;
+
+  /** A readonly flag that determines if the invoice was issued to a set of payers rather than a single buyer. */
+  readonly payerSet: boolean;
+
+  /**
+   * The number of approvers that must sign off on the invoice before it can be paid, or `0` if no approval
+   * is required.
+   *
+   * @remarks
+   * Approvals are collected anew for each cycle of a subscription.
+   */
+  readonly threshold: number;
+
+  /** The number of approvers that have signed off on the invoice so far. */
+  readonly approvals: number;
+
+  /** A readonly flag that determines if the current user has joined the set of approvers of this invoice. */
+  readonly isApprover: boolean;
+
+  /**
+   * A readonly flag that determines if the current user can approve this invoice.
+   *
+   * @remarks
+   * `true` for an approver who hasn't approved the current cycle yet, as long as more approvals are needed.
+   */
+  readonly canApprove: boolean;
 
   /**
    * A readonly flag that determines if the current user can pay this invoice.
    *
    * @remarks
-   * The `buyerPk` property of the public (or ledger) state is the public key of the buyer, while
-   * the `secretKey` property of {@link InvoicePrivateState} is the secret key of the current user. If
-   * `buyerPk` corresponds to the public key derived from `secretKey`, then `canPay` is `true`.
+   * The `buyerPk` property of the invoice in the public (or ledger) state is the payer commitment
+   * of the buyer, while the `secretKey` property of {@link InvoicePrivateState} is the secret key of
+   * the current user. If `buyerPk` corresponds to the commitment derived from `secretKey` and the
+   * invoice id, then `canPay` is `true`.
+   *
+   * For an invoice issued to a set of payers, `canPay` is `true` once the current user has joined the
+   * set, i.e. holds the Merkle path to their commitment in the private state.
    */
   readonly canPay: boolean;
+
+  /**
+   * A readonly flag that determines if the current user is the issuer of this invoice.
+   *
+   * @remarks
+   * `true` for any member of the issuer's team who holds the issuer role. The deployer of the contract
+   * holds it from the start, and admins can grant it to other members. Only an issuer may issue and reset
+   * invoices.
+   */
+  readonly isIssuer: boolean;
+
+  /**
+   * A readonly flag that determines if the current user can cancel this invoice.
+   *
+   * @remarks
+   * `true` for members of the issuer's team who hold either the issuer or the canceller role.
+   */
+  readonly canCancel: boolean;
+
+  /**
+   * A readonly flag that determines if the contract is paused.
+   *
+   * @remarks
+   * An admin can pause the contract in an emergency, such as a compromised key. While it is paused, the
+   * invoice can't be paid, and no invoice can be issued.
+   */
+  readonly paused: boolean;
+};
+
+/**
+ * A type that represents the derived state of every invoice held by an invoice contract.
+ */
+export type InvoiceContractDerivedState = {
+  /** The number of invoices issued by the contract so far. */
+  readonly sequence: bigint;
+
+  /** The invoice number the next invoice will be issued under, allocated by the {@link InvoiceNumbering} in use. */
+  readonly nextNumber: string;
+
+  /** A readonly flag that determines if the current user holds the issuer role, and so may issue invoices. */
+  readonly isIssuer: boolean;
+
+  /** A readonly flag that determines if the current user holds the admin role, and so may manage the team. */
+  readonly isAdmin: boolean;
+
+  /** The members of the issuer's team, in no particular order. */
+  readonly team: readonly TeamMemberDerivedState[];
+
+  /** A readonly flag that determines if an admin has paused the contract, blocking issuing and paying invoices. */
+  readonly paused: boolean;
+
+  /** The derived state of each invoice, keyed by its hex-encoded invoice id. */
+  readonly invoices: ReadonlyMap<string, InvoiceDerivedState>;
+
+  /** The receipts the current user holds, including those of invoices that have since been removed. */
+  readonly receipts: readonly Receipt[];
 };
 
 // TODO: for some reason I needed to include "@midnight-ntwrk/wallet-sdk-address-format": "1.0.0-rc.1", should we bump in to rc-2 ?
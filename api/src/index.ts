@@ -9,23 +9,58 @@
  */
 
 import contractModule from '../../contract/src/managed/invoice/contract/index.cjs';
-const { Contract, ledger, pureCircuits, State } = contractModule;
+const { Contract, ledger, pureCircuits, Role, State } = contractModule;
 
-import { type ContractAddress, convert_bigint_to_Uint8Array } from '@midnight-ntwrk/compact-runtime';
+import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
 import { type Logger } from 'pino';
 import {
   type InvoiceDerivedState,
+  type InvoiceContractDerivedState,
   type InvoiceContract,
   type InvoiceProviders,
   type DeployedInvoiceContract,
   type InvoiceData,
+  type AdjustmentDerivedState,
+  type AssignmentDerivedState,
+  type RevisionDerivedState,
+  type TeamMemberDerivedState,
+  type CreditNoteData,
+  type InvoiceNumbering,
+  type PayeeSplit,
+  type SubscriptionCycle,
+  defaultInvoiceNumbering,
   invoicePrivateStateKey,
 } from './common-types.js';
-import { type InvoicePrivateState, createInvoicePrivateState, witnesses } from '../../contract/src/index';
+import {
+  type Invoice,
+  type InvoicePrivateState,
+  type Ledger,
+  type Receipt,
+  type Role as TeamRole,
+  BASIS_POINTS,
+  createInvoicePrivateState,
+  milestoneTable,
+  payeeSplitTable,
+  payerSetPath,
+  payerSetRoot,
+  witnesses,
+} from '../../contract/src/index';
 import * as utils from './utils/index.js';
 import { deployContract, findDeployedContract } from '@midnight-ntwrk/midnight-js-contracts';
-import { combineLatest, map, tap, from, type Observable } from 'rxjs';
-import { toHex } from '@midnight-ntwrk/midnight-js-utils';
+import {
+  BehaviorSubject,
+  combineLatest,
+  concatMap,
+  distinct,
+  map,
+  tap,
+  from,
+  shareReplay,
+  switchMap,
+  type Observable,
+} from 'rxjs';
+import { fromHex, toHex } from '@midnight-ntwrk/midnight-js-utils';
+import { createCoinInfo, decodeTokenType, encodeCoinInfo, encodeTokenType, nativeToken } from '@midnight-ntwrk/ledger';
 
 /** @internal */
 const invoiceContractInstance: InvoiceContract = new Contract(witnesses);
@@ -35,11 +70,86 @@ const invoiceContractInstance: InvoiceContract = new Contract(witnesses);
  */
 export interface DeployedInvoiceAPI {
   readonly deployedContractAddress: ContractAddress;
-  readonly state$: Observable<InvoiceDerivedState>;
+  readonly state$: Observable<InvoiceContractDerivedState>;
 
-  issueInvoice: (amount: bigint, invoiceData: InvoiceData) => Promise<void>;
-  payInvoice: () => Promise<void>;
-  resetInvoice: () => Promise<void>;
+  readonly cycles$: Observable<SubscriptionCycle>;
+
+  issueInvoice: (
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ) => Promise<string>;
+  createSubscription: (
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    periodDays: number,
+    count: number,
+    buyerEncryptionKey?: Uint8Array,
+  ) => Promise<string>;
+  cancelSubscription: (invoiceId: Uint8Array) => Promise<void>;
+  issueQuote: (
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ) => Promise<string>;
+  acceptQuote: (invoiceId: Uint8Array) => Promise<void>;
+  issueQuotedInvoice: (invoiceId: Uint8Array) => Promise<void>;
+  issueEscrow: (
+    invoiceId: Uint8Array,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ) => Promise<string>;
+  fund: (invoiceId: Uint8Array) => Promise<void>;
+  approveMilestone: (invoiceId: Uint8Array, index: number) => Promise<void>;
+  releaseMilestone: (invoiceId: Uint8Array, index: number) => Promise<void>;
+  reclaimEscrow: (invoiceId: Uint8Array) => Promise<void>;
+  verifyInvoiceDocument: (invoiceId: Uint8Array, document: string) => Promise<boolean>;
+  payInvoice: (invoiceId: Uint8Array, amount?: bigint) => Promise<bigint>;
+  markOverdue: (invoiceId: Uint8Array) => Promise<void>;
+  cancelInvoice: (invoiceId: Uint8Array, reason: string) => Promise<void>;
+  issueCreditNote: (originalId: Uint8Array, amount: bigint, reason: string) => Promise<string>;
+  assignReceivable: (invoiceId: Uint8Array, payee: string) => Promise<void>;
+  reviseInvoice: (
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    buyerEncryptionKey?: Uint8Array,
+  ) => Promise<string>;
+  acknowledgeRevision: (invoiceId: Uint8Array) => Promise<void>;
+  openDispute: (invoiceId: Uint8Array, reason: string) => Promise<void>;
+  resolveDispute: (invoiceId: Uint8Array) => Promise<void>;
+  refund: (invoiceId: Uint8Array) => Promise<void>;
+  resetInvoice: (invoiceId: Uint8Array) => Promise<void>;
+  createPayerCommitment: (invoiceId: Uint8Array) => Promise<Uint8Array>;
+  joinPayerSet: (invoiceId: Uint8Array, payerCommitments: readonly Uint8Array[]) => Promise<void>;
+  createApproverCommitment: (invoiceId: Uint8Array) => Promise<Uint8Array>;
+  requireApprovals: (
+    invoiceId: Uint8Array,
+    approverCommitments: readonly Uint8Array[],
+    threshold: number,
+  ) => Promise<void>;
+  joinApproverSet: (invoiceId: Uint8Array, approverCommitments: readonly Uint8Array[]) => Promise<void>;
+  approve: (invoiceId: Uint8Array) => Promise<void>;
+  getNextInvoiceNumber: () => Promise<string>;
+  getMemberCommitment: () => Promise<Uint8Array>;
+  addMember: (memberCommitment: Uint8Array, role: TeamRole) => Promise<void>;
+  removeMember: (memberCommitment: Uint8Array, role: TeamRole) => Promise<void>;
+  pause: () => Promise<void>;
+  unpause: () => Promise<void>;
+  getEncryptionPublicKey: () => Promise<Uint8Array>;
+  exportReceipt: (invoiceId: Uint8Array) => Promise<Receipt>;
+  proveReceipt: (receipt: Receipt) => Promise<string>;
 }
 
 /**
@@ -49,55 +159,254 @@ export class InvoiceAPI implements DeployedInvoiceAPI {
   /** @internal */
   private constructor(
     public readonly deployedContract: DeployedInvoiceContract,
-    providers: InvoiceProviders,
+    private readonly providers: InvoiceProviders,
+    private readonly numbering: InvoiceNumbering,
     private readonly logger?: Logger,
   ) {
     this.deployedContractAddress = deployedContract.deployTxData.public.contractAddress;
+    this.privateStateChanged$ = new BehaviorSubject<void>(undefined);
+    const ledgerState$ = providers.publicDataProvider
+      .contractStateObservable(this.deployedContractAddress, { type: 'latest' })
+      .pipe(
+        map((contractState) => ledger(contractState.data)),
+        shareReplay({ bufferSize: 1, refCount: true }),
+      );
     this.state$ = combineLatest(
       [
         // Combine public (ledger) state with...
-        providers.publicDataProvider.contractStateObservable(this.deployedContractAddress, { type: 'latest' }).pipe(
-          map((contractState) => ledger(contractState.data)),
+        ledgerState$.pipe(
           tap((ledgerState) =>
             logger?.trace({
               ledgerStateChanged: {
                 ledgerState: {
-                  ...ledgerState,
-                  state: ledgerState.state === State.ISSUED ? 'issued' : ledgerState.state === State.PAID ? 'paid' : 'empty',
-                  buyerPk: toHex(ledgerState.buyerPk),
-                  amount: ledgerState.amount.toString(),
+                  sequence: ledgerState.sequence.toString(),
+                  team: ledgerState.team.size().toString(),
+                  paused: ledgerState.paused,
+                  invoices: Array.from(ledgerState.invoices, ([id, invoice]) => ({
+                    id: toHex(id),
+                    number: invoiceNumber(invoice),
+                    state: State[invoice.state],
+                    sequence: invoice.sequence.toString(),
+                    buyerPk: toHex(invoice.buyerPk),
+                    amount: invoice.amount.toString(),
+                    paidAmount: invoice.paidAmount.toString(),
+                    dueAt: invoice.dueAt.toString(),
+                  })),
                 },
               },
             }),
           ),
         ),
-        // ...private state...
-        from(providers.privateStateProvider.get(invoicePrivateStateKey) as Promise<InvoicePrivateState>),
+        // ...private state, re-read whenever this API stores a new invoice document...
+        this.privateStateChanged$.pipe(
+          switchMap(() =>
+            from(providers.privateStateProvider.get(invoicePrivateStateKey) as Promise<InvoicePrivateState>),
+          ),
+        ),
       ],
       // ...and combine them to produce the required derived state.
-      (ledgerState, privateState) => {
-        const hashedSecretKey = pureCircuits.buyerKey(
-          privateState.secretKey,
-          convert_bigint_to_Uint8Array(32, ledgerState.sequence),
+      async (ledgerState, privateState) => {
+        const invoices = new Map<string, InvoiceDerivedState>();
+        const memberCommitment = toHex(pureCircuits.issuerKey(privateState.memberKey ?? privateState.secretKey));
+        const team = Array.from(
+          ledgerState.team,
+          ([key, roles]): TeamMemberDerivedState => ({
+            key: toHex(key),
+            admin: roles.admin,
+            issuer: roles.issuer,
+            canceller: roles.canceller,
+            isSelf: toHex(key) === memberCommitment,
+          }),
         );
+        const self = team.find(({ isSelf }) => isSelf);
+        const isIssuer = self?.issuer ?? false;
+        const canCancel = isIssuer || (self?.canceller ?? false);
+
+        for (const [id, invoice] of ledgerState.invoices) {
+          const hashedSecretKey = pureCircuits.buyerKey(privateState.secretKey, id);
+
+          // Only the document hash is on the ledger; the document itself comes from the local store,
+          // or is decrypted from the ledger if it was encrypted to the current user
+          let document = privateState.documents?.[toHex(invoice.docHash)];
+          let invoiceData: InvoiceData | 'encrypted' | undefined = undefined;
+          if (document === undefined && invoice.encryptedDoc.is_some) {
+            document = await this.decryptDocument(invoice, privateState);
+            invoiceData = 'encrypted';
+          }
+          if (document !== undefined) {
+            try {
+              invoiceData = JSON.parse(document) as InvoiceData;
+            } catch (e) {
+              logger?.error({ error: e }, 'Failed to parse invoice document');
+            }
+          }
 
-        let invoiceData: InvoiceData | undefined = undefined;
-        if (ledgerState.invoiceJson.value) {
-          try {
-            invoiceData = JSON.parse(ledgerState.invoiceJson.value) as InvoiceData;
-          } catch (e) {
-            logger?.error({ error: e }, 'Failed to parse invoice JSON');
+          const subscription = ledgerState.subscriptions.member(id) ? ledgerState.subscriptions.lookup(id) : undefined;
+          const isApprover =
+            toHex(privateState.approverPaths?.[toHex(id)]?.leaf ?? new Uint8Array()) ===
+            toHex(pureCircuits.approverKey(privateState.secretKey, id));
+
+          // Earlier versions are recorded as a hash chain, running back from the one the latest revision replaced
+          const revisions: RevisionDerivedState[] = [];
+          let link = invoice.previousRevision;
+          while (link.is_some && ledgerState.revisions.member(link.value)) {
+            const revision = ledgerState.revisions.lookup(link.value);
+            const revisionDocument =
+              privateState.documents?.[toHex(revision.docHash)] ?? this.decryptedDocuments.get(toHex(revision.docHash));
+            let revisionData: InvoiceData | undefined = undefined;
+            try {
+              revisionData = revisionDocument !== undefined ? (JSON.parse(revisionDocument) as InvoiceData) : undefined;
+            } catch (e) {
+              logger?.error({ error: e }, 'Failed to parse invoice document');
+            }
+            revisions.unshift({
+              revision: Number(revision.revision),
+              amount: revision.amount,
+              docHash: toHex(revision.docHash),
+              invoiceData: revisionData,
+            });
+            link = revision.previous;
           }
+
+          invoices.set(toHex(id), {
+            id: toHex(id),
+            docHash: toHex(invoice.docHash),
+            number: invoiceNumber(invoice),
+            state: invoice.state,
+            sequence: invoice.sequence,
+            amount: invoice.amount,
+            tokenType: decodeTokenType(invoice.tokenType),
+            paidAmount: invoice.paidAmount,
+            chargedAmount: invoice.chargedAmount,
+            outstanding: invoice.amount - invoice.paidAmount,
+            amountDueNow: chargeFor(invoice.amount - invoice.paidAmount, invoice, new Date()),
+            dueAt: new Date(Number(invoice.dueAt) * 1000),
+            isOverdue:
+              invoice.state === State.OVERDUE ||
+              ((invoice.state === State.ISSUED || invoice.state === State.PARTIALLY_PAID) &&
+                BigInt(Math.floor(Date.now() / 1000)) > invoice.dueAt),
+            terms:
+              invoice.terms.discount > 0n || invoice.terms.lateFee > 0n
+                ? {
+                    discount: Number(invoice.terms.discount),
+                    discountUntil:
+                      invoice.terms.discount > 0n ? new Date(Number(invoice.terms.discountUntil) * 1000) : undefined,
+                    lateFee: Number(invoice.terms.lateFee),
+                  }
+                : undefined,
+            paidLate: invoice.paidLate,
+            cancelReason: invoice.cancelReason.is_some ? invoice.cancelReason.value : undefined,
+            disputeReason: invoice.disputeReason.is_some ? invoice.disputeReason.value : undefined,
+            acceptedDocHash: invoice.acceptedDocHash.is_some ? toHex(invoice.acceptedDocHash.value) : undefined,
+            adjustments: Array.from(ledgerState.creditNotes)
+              // Credit notes against an earlier invoice under the same id don't apply
+              .filter(([, note]) => toHex(note.invoiceId) === toHex(id) && note.sequence === invoice.sequence)
+              .map(
+                ([noteId, note]): AdjustmentDerivedState => ({
+                  id: toHex(noteId),
+                  docHash: toHex(note.docHash),
+                  amount: -note.amount,
+                  reason: note.reason,
+                }),
+              ),
+            credited: invoice.credited,
+            payee: toHex(invoice.payee.bytes),
+            assignments: Array.from(ledgerState.assignments)
+              .filter(
+                ([, assignment]) =>
+                  toHex(assignment.invoiceId) === toHex(id) &&
+                  assignment.index <= invoice.assignments &&
+                  assignment.sequence <= invoice.sequence,
+              )
+              // An earlier invoice under the same id keeps its assignments, so take the latest one of each index
+              .sort(([, a], [, b]) => (a.sequence < b.sequence ? 1 : a.sequence > b.sequence ? -1 : 0))
+              .filter(([, assignment], i, all) => all.findIndex(([, other]) => other.index === assignment.index) === i)
+              .map(
+                ([, assignment]): AssignmentDerivedState => ({
+                  index: Number(assignment.index),
+                  from: toHex(assignment.from.bytes),
+                  to: toHex(assignment.to.bytes),
+                }),
+              )
+              .sort((a, b) => a.index - b.index),
+            revision: Number(invoice.revision),
+            revisions,
+            acknowledged: invoice.acknowledged,
+            invoiceData,
+            receipt: privateState.receipts?.findLast(
+              (receipt) => toHex(receipt.invoiceId) === toHex(id) && receipt.sequence === invoice.sequence,
+            ),
+            split: invoice.splits.is_some
+              ? invoice.splits.value
+                  .filter(({ share }) => share > 0n)
+                  .map(({ payee, share }): PayeeSplit => ({ payee: toHex(payee.bytes), share: Number(share) }))
+              : undefined,
+            milestones: ledgerState.escrows.member(id)
+              ? ledgerState.escrows
+                  .lookup(id)
+                  .map(({ amount, approved, released }, index) => ({
+                    index,
+                    title: invoiceData === 'encrypted' ? undefined : invoiceData?.milestones?.[index]?.title,
+                    amount,
+                    approved,
+                    released,
+                  }))
+                  // Unused rows of the milestone table have no amount
+                  .filter(({ amount }) => amount > 0n)
+              : undefined,
+            subscription: subscription && {
+              cycle: Number(subscription.cycle),
+              count: Number(subscription.count),
+              periodDays: Number(subscription.period) / SECONDS_PER_DAY,
+            },
+            payerSet: invoice.payersRoot.is_some,
+            threshold: Number(invoice.threshold),
+            approvals: Number(invoice.approvals),
+            isApprover,
+            canApprove:
+              isApprover &&
+              invoice.approvals < invoice.threshold &&
+              !ledgerState.nullifiers.member(
+                pureCircuits.approvalNullifier(privateState.secretKey, id, invoice.sequence, invoice.revision),
+              ),
+            canPay: invoice.payersRoot.is_some
+              ? toHex(privateState.payerPaths?.[toHex(id)]?.leaf ?? new Uint8Array()) === toHex(hashedSecretKey)
+              : toHex(invoice.buyerPk) === toHex(hashedSecretKey),
+            isIssuer,
+            canCancel,
+            paused: ledgerState.paused,
+          });
         }
 
         return {
-          state: ledgerState.state,
           sequence: ledgerState.sequence,
-          amount: ledgerState.amount,
-          invoiceData,
-          canPay: toHex(ledgerState.buyerPk) === toHex(hashedSecretKey),
+          nextNumber: nextInvoiceNumber(ledgerState.invoiceNumbers, numbering, new Date()),
+          isIssuer,
+          isAdmin: self?.admin ?? false,
+          team,
+          paused: ledgerState.paused,
+          invoices,
+          receipts: privateState.receipts ?? [],
         };
       },
+    ).pipe(switchMap((derivedState) => from(derivedState)));
+    // Every cycle of a subscription is issued under the same invoice id, with a sequence number of its own
+    this.cycles$ = ledgerState$.pipe(
+      concatMap((ledgerState) =>
+        Array.from(ledgerState.subscriptions, ([id, subscription]): SubscriptionCycle => {
+          const invoice = ledgerState.invoices.lookup(id);
+          return {
+            invoiceId: toHex(id),
+            sequence: invoice.sequence,
+            number: invoiceNumber(invoice),
+            cycle: Number(subscription.cycle),
+            count: Number(subscription.count),
+            amount: invoice.amount,
+            dueAt: new Date(Number(invoice.dueAt) * 1000),
+          };
+        }),
+      ),
+      distinct(({ invoiceId, sequence }) => `${invoiceId}:${sequence}`),
     );
   }
 
@@ -110,19 +419,69 @@ export class InvoiceAPI implements DeployedInvoiceAPI {
    * Gets an observable stream of state changes based on the current public (ledger),
    * and private state data.
    */
-  readonly state$: Observable<InvoiceDerivedState>;
+  readonly state$: Observable<InvoiceContractDerivedState>;
+
+  /**
+   * Gets an observable stream of the cycles of subscriptions, emitting each cycle once as it is issued.
+   *
+   * @remarks
+   * The cycles current when the stream is subscribed to are emitted first.
+   */
+  readonly cycles$: Observable<SubscriptionCycle>;
+
+  /** Signals that the private state has been updated outside of a circuit call. */
+  private readonly privateStateChanged$: BehaviorSubject<void>;
+
+  /** Documents decrypted from the ledger so far, keyed by their hex-encoded document hash. */
+  private readonly decryptedDocuments = new Map<string, string>();
 
   /**
    * Issues a new invoice with the given amount and invoice data.
    *
+   * @param invoiceId The id to key the invoice by; it must not already be in use by the contract.
    * @param amount The amount to invoice.
-   * @param invoiceData The invoice metadata.
+   * @param invoiceData The invoice metadata. If it holds a split, each payment is divided between the
+   * payees it names instead of being paid to the issuer.
+   * @param payerCommitment The payer commitment handed over by the buyer, as produced by
+   * {@link createPayerCommitment} for `invoiceId` in the buyer's own DApp instance. A list of payer
+   * commitments issues the invoice to a set of payers instead, any of whom can pay once they have
+   * joined the set with {@link joinPayerSet}; only the Merkle root of the list is recorded on the ledger.
+   * @param dueAt The date payment is due by. It must be later than the time of the block the invoice
+   * is issued in.
+   * @param buyerEncryptionKey The buyer's encryption public key, as returned by
+   * {@link getEncryptionPublicKey} in the buyer's own DApp instance. If given, the document is also
+   * recorded on the ledger encrypted to this key, so the buyer receives it without an off-chain hand-over.
+   * @returns The canonical invoice document. Unless it was encrypted to the buyer, only its hash is
+   * recorded on the ledger, so it must be delivered to the buyer off-chain, who can check it with
+   * {@link verifyInvoiceDocument}.
    */
-  async issueInvoice(amount: bigint, invoiceData: InvoiceData): Promise<void> {
-    this.logger?.info(`issuingInvoice: amount=${amount}, data=${JSON.stringify(invoiceData)}`);
+  async issueInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ): Promise<string> {
+    this.logger?.info(
+      `issuingInvoice: id=${toHex(invoiceId)}, amount=${amount}, data=${JSON.stringify(invoiceData)}, payer=${payerCommitment instanceof Uint8Array ? toHex(payerCommitment) : payerCommitment.map(toHex).join(',')}, dueAt=${dueAt.toISOString()}, encryptedTo=${buyerEncryptionKey !== undefined ? toHex(buyerEncryptionKey) : 'none'}`,
+    );
 
-    const invoiceJson = JSON.stringify(invoiceData);
-    const txData = await this.deployedContract.callTx.issueInvoice(amount, invoiceJson);
+    const { document, invoiceNumber, docHash, encryptedDoc, tokenType, buyerPk, payersRoot, splits, terms } =
+      await this.prepareIssue(invoiceData, payerCommitment, buyerEncryptionKey);
+    const txData = await this.deployedContract.callTx.issueInvoice(
+      invoiceId,
+      invoiceNumber,
+      amount,
+      tokenType,
+      docHash,
+      encryptedDoc,
+      buyerPk,
+      payersRoot,
+      splits,
+      BigInt(Math.floor(dueAt.getTime() / 1000)),
+      terms,
+    );
 
     this.logger?.trace({
       transactionAdded: {
@@ -131,15 +490,325 @@ export class InvoiceAPI implements DeployedInvoiceAPI {
         blockHeight: txData.public.blockHeight,
       },
     });
+
+    await this.storeDocument(docHash, document);
+    return document;
+  }
+
+  /**
+   * Starts a subscription, issuing the first of a number of invoices billed at a fixed interval.
+   *
+   * @param invoiceId The id to key every cycle of the subscription by; it must not already be in use by
+   * the contract.
+   * @param amount The amount to invoice each cycle.
+   * @param invoiceData The invoice metadata, shared by every cycle.
+   * @param payerCommitment The payer commitment (or commitments) handed over by the buyer, as for
+   * {@link issueInvoice}.
+   * @param dueAt The date payment of the first cycle is due by.
+   * @param periodDays The number of days between the due dates of consecutive cycles.
+   * @param count The number of cycles to bill.
+   * @param buyerEncryptionKey The buyer's encryption public key, as for {@link issueInvoice}.
+   * @returns The canonical invoice document, as for {@link issueInvoice}.
+   *
+   * @remarks
+   * Once a cycle has been paid in full, the contract issues the next one under the same invoice id with a
+   * fresh sequence number and the same payers, until `count` cycles have been billed. Each cycle gets an
+   * invoice number of its own, which the contract makes by adding the number of the cycle to the first one's,
+   * e.g. `INV-2026-0001-2`.
+   * The new cycles are reported by {@link cycles$}.
+   */
+  async createSubscription(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    periodDays: number,
+    count: number,
+    buyerEncryptionKey?: Uint8Array,
+  ): Promise<string> {
+    this.logger?.info(
+      `creatingSubscription: id=${toHex(invoiceId)}, amount=${amount}, data=${JSON.stringify(invoiceData)}, dueAt=${dueAt.toISOString()}, periodDays=${periodDays}, count=${count}`,
+    );
+
+    const { document, invoiceNumber, docHash, encryptedDoc, tokenType, buyerPk, payersRoot, splits, terms } =
+      await this.prepareIssue(invoiceData, payerCommitment, buyerEncryptionKey);
+    const txData = await this.deployedContract.callTx.createSubscription(
+      invoiceId,
+      invoiceNumber,
+      amount,
+      tokenType,
+      docHash,
+      encryptedDoc,
+      buyerPk,
+      payersRoot,
+      splits,
+      BigInt(Math.floor(dueAt.getTime() / 1000)),
+      terms,
+      BigInt(Math.round(periodDays * SECONDS_PER_DAY)),
+      BigInt(count),
+    );
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'createSubscription',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+
+    await this.storeDocument(docHash, document);
+    return document;
+  }
+
+  /**
+   * Stops a subscription from billing any further cycles.
+   *
+   * @param invoiceId The id the subscription is keyed by.
+   *
+   * @remarks
+   * Only an issuer or canceller can cancel a subscription. The current cycle remains an ordinary invoice.
+   */
+  async cancelSubscription(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`cancellingSubscription: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.cancelSubscription(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'cancelSubscription',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Issues a quote, which becomes a payable invoice once the buyer has accepted it.
+   *
+   * @param invoiceId The id to key the quote by; it must not already be in use by the contract. The invoice
+   * issued from the quote keeps the same id.
+   * @param amount The amount quoted.
+   * @param invoiceData The quote metadata, as for {@link issueInvoice}.
+   * @param payerCommitment The payer commitment (or commitments) handed over by the buyer, as for
+   * {@link issueInvoice}.
+   * @param dueAt The date payment is due by, once the quote has been issued as an invoice.
+   * @param buyerEncryptionKey The buyer's encryption public key, as for {@link issueInvoice}.
+   * @returns The canonical quote document, as for {@link issueInvoice}. The buyer must hold it to accept
+   * the quote.
+   *
+   * @remarks
+   * The buyer accepts the quote with {@link acceptQuote}, after which the issuer issues it as an invoice
+   * with {@link issueQuotedInvoice}. Until then it can't be paid.
+   */
+  async issueQuote(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ): Promise<string> {
+    this.logger?.info(
+      `issuingQuote: id=${toHex(invoiceId)}, amount=${amount}, data=${JSON.stringify(invoiceData)}, dueAt=${dueAt.toISOString()}`,
+    );
+
+    const { document, invoiceNumber, docHash, encryptedDoc, tokenType, buyerPk, payersRoot, splits, terms } =
+      await this.prepareIssue(invoiceData, payerCommitment, buyerEncryptionKey);
+    const txData = await this.deployedContract.callTx.issueQuote(
+      invoiceId,
+      invoiceNumber,
+      amount,
+      tokenType,
+      docHash,
+      encryptedDoc,
+      buyerPk,
+      payersRoot,
+      splits,
+      BigInt(Math.floor(dueAt.getTime() / 1000)),
+      terms,
+    );
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'issueQuote',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+
+    await this.storeDocument(docHash, document);
+    return document;
+  }
+
+  /**
+   * Accepts a quote, agreeing to the amount and terms of its document.
+   *
+   * @param invoiceId The id of the quote to accept.
+   *
+   * @remarks
+   * Only the buyer can accept a quote, proven in the same way as for {@link payInvoice}. The buyer must
+   * hold the quote document, either verified with {@link verifyInvoiceDocument} or decrypted from the
+   * ledger; its hash is recorded on the ledger as the terms the buyer accepted.
+   */
+  async acceptQuote(invoiceId: Uint8Array): Promise<void> {
+    const invoice = await this.getInvoice(invoiceId);
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    const document =
+      privateState.documents?.[toHex(invoice.docHash)] ??
+      (invoice.encryptedDoc.is_some ? await this.decryptDocument(invoice, privateState) : undefined);
+    if (document === undefined) {
+      throw new Error(`Verify the document of quote ${toHex(invoiceId)} before accepting it`);
+    }
+
+    this.logger?.info(`acceptingQuote: id=${toHex(invoiceId)}, docHash=${toHex(invoice.docHash)}`);
+
+    const txData = await this.deployedContract.callTx.acceptQuote(invoiceId, invoice.docHash);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'acceptQuote',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Issues an accepted quote as an invoice, which the buyer can then pay.
+   *
+   * @param invoiceId The id of the accepted quote.
+   *
+   * @remarks
+   * Only the issuer can issue a quote as an invoice, and only once the buyer has accepted it.
+   */
+  async issueQuotedInvoice(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`issuingQuotedInvoice: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.issueQuotedInvoice(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'issueQuotedInvoice',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Issues a new escrow invoice, which the buyer funds in full up front and which is released to the
+   * issuer milestone by milestone.
+   *
+   * @param invoiceId The id to key the invoice by; it must not already be in use by the contract.
+   * @param invoiceData The invoice metadata, which must list the milestones. The invoice amount is the
+   * total of the milestone amounts.
+   * @param payerCommitment The payer commitment (or commitments) handed over by the buyer, as for
+   * {@link issueInvoice}.
+   * @param dueAt The date the escrow must be funded by.
+   * @param buyerEncryptionKey The buyer's encryption public key, as for {@link issueInvoice}.
+   * @returns The canonical invoice document, as for {@link issueInvoice}.
+   *
+   * @remarks
+   * Escrowed funds are always released to the issuer, so an escrow invoice can't be split between payees.
+   * It is funded in full in one go, so it can't have discount or late fee terms either.
+   */
+  async issueEscrow(
+    invoiceId: Uint8Array,
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    dueAt: Date,
+    buyerEncryptionKey?: Uint8Array,
+  ): Promise<string> {
+    this.logger?.info(
+      `issuingEscrow: id=${toHex(invoiceId)}, data=${JSON.stringify(invoiceData)}, dueAt=${dueAt.toISOString()}`,
+    );
+
+    if (invoiceData.split !== undefined) {
+      throw new Error('An escrow invoice is released to the issuer alone and cannot be split');
+    }
+    if (invoiceData.terms !== undefined) {
+      throw new Error('An escrow invoice is funded in full up front and cannot have payment terms');
+    }
+    const milestoneAmounts = milestoneTable((invoiceData.milestones ?? []).map(({ amount }) => BigInt(amount)));
+    const { document, invoiceNumber, docHash, encryptedDoc, tokenType, buyerPk, payersRoot } = await this.prepareIssue(
+      invoiceData,
+      payerCommitment,
+      buyerEncryptionKey,
+    );
+    const txData = await this.deployedContract.callTx.issueEscrow(
+      invoiceId,
+      invoiceNumber,
+      milestoneAmounts.reduce((total, amount) => total + amount, 0n),
+      tokenType,
+      docHash,
+      encryptedDoc,
+      buyerPk,
+      payersRoot,
+      BigInt(Math.floor(dueAt.getTime() / 1000)),
+      milestoneAmounts,
+    );
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'issueEscrow',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+
+    await this.storeDocument(docHash, document);
+    return document;
+  }
+
+  /**
+   * Checks an invoice document received off-chain against the hash recorded on the ledger.
+   *
+   * @param invoiceId The id of the invoice the document belongs to.
+   * @param document The canonical invoice document, as returned by {@link issueInvoice} to the issuer.
+   * @returns `true` if the document matches the invoice, in which case it is kept in the local document
+   * store and shows up as the invoice's `invoiceData`; otherwise `false`.
+   */
+  async verifyInvoiceDocument(invoiceId: Uint8Array, document: string): Promise<boolean> {
+    const invoice = await this.getInvoice(invoiceId);
+    const docHash = utils.documentHash(document);
+
+    if (toHex(docHash) !== toHex(invoice.docHash)) {
+      this.logger?.warn(`invoiceDocumentMismatch: id=${toHex(invoiceId)}, hash=${toHex(docHash)}`);
+      return false;
+    }
+
+    await this.storeDocument(docHash, document);
+    return true;
   }
 
   /**
-   * Pays the currently issued invoice using ZK proof.
+   * Pays an issued invoice, or one installment of it, using ZK proof.
+   *
+   * @param invoiceId The id of the invoice to pay.
+   * @param amount The portion of the invoice amount to pay off now. Defaults to the whole outstanding amount.
+   * @returns The amount charged for the portion, after any early-payment discount or late fee.
+   *
+   * @remarks
+   * A coin of the invoice's token for the amount charged is handed to the circuit, which forwards it to the
+   * issuer. The wallet supplies the matching inputs when it balances the transaction.
+   *
+   * The charge is worked out against the current time, and the circuit checks it against the time of the
+   * block the payment is made in. A payment made right as the discount period ends or the invoice falls due
+   * may therefore be rejected, and has to be made again.
+   *
+   * The receipt for the payment is kept in the private state straight away, so that it can be proven with
+   * {@link proveReceipt} even once the invoice has moved on to another payment or cycle.
    */
-  async payInvoice(): Promise<void> {
-    this.logger?.info('payingInvoice');
+  async payInvoice(invoiceId: Uint8Array, amount?: bigint): Promise<bigint> {
+    const invoice = await this.getInvoice(invoiceId);
+    const portion = amount ?? invoice.amount - invoice.paidAmount;
+    const charge = chargeFor(portion, invoice, new Date());
+
+    this.logger?.info(`payingInvoice: id=${toHex(invoiceId)}, amount=${portion}, charge=${charge}`);
 
-    const txData = await this.deployedContract.callTx.payInvoice();
+    const coin = encodeCoinInfo(createCoinInfo(decodeTokenType(invoice.tokenType), charge));
+    const txData = await this.deployedContract.callTx.payInvoice(invoiceId, portion, coin);
 
     this.logger?.trace({
       transactionAdded: {
@@ -148,19 +817,31 @@ export class InvoiceAPI implements DeployedInvoiceAPI {
         blockHeight: txData.public.blockHeight,
       },
     });
+
+    await this.keepReceipt({ invoiceId, sequence: invoice.sequence, paidAmount: invoice.paidAmount + portion });
+    return txData.private.result;
   }
 
   /**
-   * Resets a paid invoice to allow a new invoice to be issued.
+   * Funds an escrow invoice with its full amount.
+   *
+   * @param invoiceId The id of the escrow invoice to fund.
+   *
+   * @remarks
+   * Only the buyer can fund an escrow invoice, proven in the same way as for {@link payInvoice}. The funds
+   * are held by the contract until the issuer releases them milestone by milestone.
    */
-  async resetInvoice(): Promise<void> {
-    this.logger?.info('resettingInvoice');
+  async fund(invoiceId: Uint8Array): Promise<void> {
+    const invoice = await this.getInvoice(invoiceId);
+
+    this.logger?.info(`fundingEscrow: id=${toHex(invoiceId)}, amount=${invoice.amount}`);
 
-    const txData = await this.deployedContract.callTx.resetInvoice();
+    const coin = encodeCoinInfo(createCoinInfo(decodeTokenType(invoice.tokenType), invoice.amount));
+    const txData = await this.deployedContract.callTx.fund(invoiceId, coin);
 
     this.logger?.trace({
       transactionAdded: {
-        circuit: 'resetInvoice',
+        circuit: 'fund',
         txHash: txData.public.txHash,
         blockHeight: txData.public.blockHeight,
       },
@@ -168,57 +849,939 @@ export class InvoiceAPI implements DeployedInvoiceAPI {
   }
 
   /**
-   * Deploys a new invoice contract to the network.
+   * Approves a milestone of a funded escrow invoice as complete, allowing the issuer to release it.
+   *
+   * @param invoiceId The id of the escrow invoice.
+   * @param index The index of the milestone, counting from 0.
+   *
+   * @remarks
+   * Only the buyer can approve a milestone.
    */
-  static async deploy(providers: InvoiceProviders, logger?: Logger): Promise<InvoiceAPI> {
-    logger?.info('deployContract');
+  async approveMilestone(invoiceId: Uint8Array, index: number): Promise<void> {
+    this.logger?.info(`approvingMilestone: id=${toHex(invoiceId)}, index=${index}`);
 
-    const deployedInvoiceContract = await deployContract<typeof invoiceContractInstance>(providers, {
-      privateStateId: invoicePrivateStateKey,
-      contract: invoiceContractInstance,
-      initialPrivateState: await InvoiceAPI.getPrivateState(providers),
+    const txData = await this.deployedContract.callTx.approveMilestone(invoiceId, BigInt(index));
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'approveMilestone',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
     });
+  }
 
-    logger?.trace({
-      contractDeployed: {
-        finalizedDeployTxData: deployedInvoiceContract.deployTxData.public,
+  /**
+   * Releases the amount of an approved milestone from escrow to the issuer.
+   *
+   * @param invoiceId The id of the escrow invoice.
+   * @param index The index of the milestone, counting from 0.
+   *
+   * @remarks
+   * Only the issuer can release a milestone. Releasing the last milestone marks the invoice as paid.
+   */
+  async releaseMilestone(invoiceId: Uint8Array, index: number): Promise<void> {
+    this.logger?.info(`releasingMilestone: id=${toHex(invoiceId)}, index=${index}`);
+
+    const txData = await this.deployedContract.callTx.releaseMilestone(invoiceId, BigInt(index));
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'releaseMilestone',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
+  }
+
+  /**
+   * Returns the funds still held in escrow to the buyer once the due date has passed.
+   *
+   * @param invoiceId The id of the escrow invoice.
+   *
+   * @remarks
+   * Only the buyer can reclaim an escrow, proven in the same way as for {@link payInvoice}, and only after the
+   * due date. Milestones the issuer has already released stay paid; every other milestone, approved or not, is
+   * returned to the buyer and the invoice is marked {@link State.REFUNDED}.
+   */
+  async reclaimEscrow(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`reclaimingEscrow: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.reclaimEscrow(invoiceId);
 
-    return new InvoiceAPI(deployedInvoiceContract, providers, logger);
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'reclaimEscrow',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
   }
 
   /**
-   * Finds an already deployed invoice contract on the network, and joins it.
+   * Marks an unpaid invoice whose due date has passed as overdue.
+   *
+   * @param invoiceId The id of the invoice to mark.
+   *
+   * @remarks
+   * Anyone may call this; the circuit only succeeds once the block time is past the due date.
    */
-  static async join(providers: InvoiceProviders, contractAddress: ContractAddress, logger?: Logger): Promise<InvoiceAPI> {
-    logger?.info({
-      joinContract: {
-        contractAddress,
+  async markOverdue(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`markingInvoiceOverdue: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.markOverdue(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'markOverdue',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
+  }
 
-    const deployedInvoiceContract = await findDeployedContract<InvoiceContract>(providers, {
-      contractAddress,
-      contract: invoiceContractInstance,
-      privateStateId: invoicePrivateStateKey,
-      initialPrivateState: await InvoiceAPI.getPrivateState(providers),
+  /**
+   * Cancels an unpaid invoice.
+   *
+   * @param invoiceId The id of the invoice to cancel.
+   * @param reason The reason for cancelling, recorded alongside the invoice.
+   *
+   * @remarks
+   * Only an issuer or canceller can cancel an invoice, and only while it has not received any payment. A quote can be
+   * withdrawn in the same way, whether or not the buyer has accepted it.
+   */
+  async cancelInvoice(invoiceId: Uint8Array, reason: string): Promise<void> {
+    this.logger?.info(`cancellingInvoice: id=${toHex(invoiceId)}, reason=${reason}`);
+
+    const txData = await this.deployedContract.callTx.cancelInvoice(invoiceId, reason);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'cancelInvoice',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
     });
+  }
 
-    logger?.trace({
-      contractJoined: {
-        finalizedDeployTxData: deployedInvoiceContract.deployTxData.public,
+  /**
+   * Issues a credit note against an over-billed invoice.
+   *
+   * @param originalId The id of the invoice to credit.
+   * @param amount The amount to credit.
+   * @param reason Why the invoice is credited.
+   * @returns The canonical credit note document, referencing the invoice by its sequence number and
+   * document hash. Only its hash is recorded on the ledger, so it must be delivered to the buyer off-chain.
+   *
+   * @remarks
+   * Only the issuer can issue a credit note. Against an unpaid invoice it reduces the outstanding amount,
+   * and settles the invoice if the rest has already been paid; against a paid invoice it is only recorded,
+   * and all the credit notes against it together can't exceed the amount paid. Escrow invoices can't be
+   * credited.
+   */
+  async issueCreditNote(originalId: Uint8Array, amount: bigint, reason: string): Promise<string> {
+    const invoice = await this.getInvoice(originalId);
+
+    this.logger?.info(
+      `issuingCreditNote: id=${toHex(originalId)}, sequence=${invoice.sequence}, amount=${amount}, reason=${reason}`,
+    );
+
+    const creditNoteData: CreditNoteData = {
+      type: 'credit-note',
+      invoiceId: toHex(originalId),
+      sequence: invoice.sequence.toString(),
+      invoiceDocHash: toHex(invoice.docHash),
+      amount: amount.toString(),
+      reason,
+      issuedAt: new Date().toISOString().split('T')[0],
+    };
+    const document = utils.canonicalJson(creditNoteData);
+    const docHash = utils.documentHash(document);
+    const txData = await this.deployedContract.callTx.issueCreditNote(
+      utils.randomBytes(32),
+      originalId,
+      amount,
+      docHash,
+      reason,
+    );
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'issueCreditNote',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
       },
     });
 
-    return new InvoiceAPI(deployedInvoiceContract, providers, logger);
+    await this.storeDocument(docHash, document);
+    return document;
   }
 
-  private static async getPrivateState(providers: InvoiceProviders): Promise<InvoicePrivateState> {
-    const existingPrivateState = await providers.privateStateProvider.get(invoicePrivateStateKey);
-    return existingPrivateState ?? createInvoicePrivateState(utils.randomBytes(32));
+  /**
+   * Assigns the receivable of an unpaid invoice to another payee.
+   *
+   * @param invoiceId The id of the invoice to assign.
+   * @param payee The hex-encoded coin public key that payments towards the invoice are sent to from now on.
+   *
+   * @remarks
+   * Only the issuer can assign a receivable, for instance to a factor that has bought it. Payments already
+   * made stay with the previous payee. A split invoice can't be assigned, and the assignment is recorded on
+   * the ledger so that the buyer can see who they are paying.
+   */
+  async assignReceivable(invoiceId: Uint8Array, payee: string): Promise<void> {
+    this.logger?.info(`assigningReceivable: id=${toHex(invoiceId)}, payee=${payee}`);
+
+    const txData = await this.deployedContract.callTx.assignReceivable(invoiceId, { bytes: fromHex(payee) });
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'assignReceivable',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
   }
-}
+
+  /**
+   * Revises the amount and document of an unpaid invoice.
+   *
+   * @param invoiceId The id of the invoice to revise.
+   * @param amount The revised amount, which must exceed the amount paid so far.
+   * @param invoiceData The revised invoice metadata, as for {@link issueInvoice}. Its `revisedAt` time is set to
+   * the current time.
+   * @param buyerEncryptionKey The buyer's encryption public key, as for {@link issueInvoice}.
+   * @returns The canonical revised invoice document, as for {@link issueInvoice}. The buyer must hold it to
+   * acknowledge the revision.
+   *
+   * @remarks
+   * Only the issuer can revise an invoice, and subscriptions and escrow invoices can't be revised. The token,
+   * split and terms recorded on the ledger stay as they are. The buyer must acknowledge the revision with
+   * {@link acknowledgeRevision} before paying the invoice.
+   */
+  async reviseInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    invoiceData: InvoiceData,
+    buyerEncryptionKey?: Uint8Array,
+  ): Promise<string> {
+    this.logger?.info(`revisingInvoice: id=${toHex(invoiceId)}, amount=${amount}, data=${JSON.stringify(invoiceData)}`);
+
+    // The revision time is recorded in the document, so that a revision of the amount alone changes it too
+    const document = utils.canonicalJson({ ...invoiceData, revisedAt: new Date().toISOString() });
+    const docHash = utils.documentHash(document);
+    const encryptedDoc =
+      buyerEncryptionKey !== undefined
+        ? { is_some: true, value: await utils.encryptDocument(buyerEncryptionKey, document) }
+        : { is_some: false, value: '' };
+    const txData = await this.deployedContract.callTx.reviseInvoice(invoiceId, amount, docHash, encryptedDoc);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'reviseInvoice',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+
+    await this.storeDocument(docHash, document);
+    return document;
+  }
+
+  /**
+   * Acknowledges the latest revision of an invoice, so that it can be paid.
+   *
+   * @param invoiceId The id of the revised invoice.
+   *
+   * @remarks
+   * Only the buyer can acknowledge a revision, proven in the same way as for {@link payInvoice}. As with
+   * {@link acceptQuote}, the buyer must hold the revised document, either verified with
+   * {@link verifyInvoiceDocument} or decrypted from the ledger.
+   */
+  async acknowledgeRevision(invoiceId: Uint8Array): Promise<void> {
+    const invoice = await this.getInvoice(invoiceId);
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    const document =
+      privateState.documents?.[toHex(invoice.docHash)] ??
+      (invoice.encryptedDoc.is_some ? await this.decryptDocument(invoice, privateState) : undefined);
+    if (document === undefined) {
+      throw new Error(`Verify the revised document of invoice ${toHex(invoiceId)} before acknowledging it`);
+    }
+
+    this.logger?.info(`acknowledgingRevision: id=${toHex(invoiceId)}, revision=${invoice.revision}`);
+
+    const txData = await this.deployedContract.callTx.acknowledgeRevision(invoiceId, invoice.docHash);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'acknowledgeRevision',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Disputes an invoice that the current user has paid, in full or in part.
+   *
+   * @param invoiceId The id of the invoice to dispute.
+   * @param reason Why the buyer disputes the invoice.
+   *
+   * @remarks
+   * Only the buyer can open a dispute, proven in the same way as for {@link payInvoice}. The buyer's
+   * coin public key is recorded so that a refund can be sent back to them.
+   */
+  async openDispute(invoiceId: Uint8Array, reason: string): Promise<void> {
+    this.logger?.info(`openingDispute: id=${toHex(invoiceId)}, reason=${reason}`);
+
+    const txData = await this.deployedContract.callTx.openDispute(invoiceId, reason);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'openDispute',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Withdraws the current user's dispute, returning the invoice to its payment state.
+   *
+   * @param invoiceId The id of the disputed invoice.
+   */
+  async resolveDispute(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`resolvingDispute: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.resolveDispute(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'resolveDispute',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Refunds everything paid towards a disputed invoice to its buyer.
+   *
+   * @param invoiceId The id of the disputed invoice.
+   *
+   * @remarks
+   * Payments were forwarded to the issuer as they were made, so the refund is funded from the issuer's
+   * wallet. A coin of the invoice's token for the amount the buyer was charged, discounts and late fees
+   * included, is handed to the circuit, which sends it on to the buyer.
+   */
+  async refund(invoiceId: Uint8Array): Promise<void> {
+    const invoice = await this.getInvoice(invoiceId);
+
+    this.logger?.info(`refundingInvoice: id=${toHex(invoiceId)}, amount=${invoice.chargedAmount}`);
+
+    const coin = encodeCoinInfo(createCoinInfo(decodeTokenType(invoice.tokenType), invoice.chargedAmount));
+    const txData = await this.deployedContract.callTx.refund(invoiceId, coin);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'refund',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Removes a paid, cancelled or refunded invoice from the contract.
+   *
+   * @param invoiceId The id of the invoice to remove.
+   */
+  async resetInvoice(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`resettingInvoice: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.resetInvoice(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'resetInvoice',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Creates the payer commitment that identifies the current user as the buyer of an invoice.
+   *
+   * @param invoiceId The id the invoice will be issued under.
+   * @returns The commitment to hand over to the issuer for use with {@link issueInvoice}.
+   */
+  async createPayerCommitment(invoiceId: Uint8Array): Promise<Uint8Array> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    return pureCircuits.buyerKey(privateState.secretKey, invoiceId);
+  }
+
+  /**
+   * Joins the set of payers an invoice was issued to, so that the current user can pay it.
+   *
+   * @param invoiceId The id of the invoice.
+   * @param payerCommitments The payer commitments the invoice was issued to, in the order the issuer
+   * passed them to {@link issueInvoice}. They must include the commitment the current user made with
+   * {@link createPayerCommitment}.
+   *
+   * @remarks
+   * The path to the current user's commitment in the Merkle tree of `payerCommitments` is kept in the
+   * private state, and proves membership of the set when paying or disputing the invoice.
+   */
+  async joinPayerSet(invoiceId: Uint8Array, payerCommitments: readonly Uint8Array[]): Promise<void> {
+    this.logger?.info(`joiningPayerSet: id=${toHex(invoiceId)}, payers=${payerCommitments.length}`);
+
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice.payersRoot.is_some || payerSetRoot(payerCommitments).field !== invoice.payersRoot.value.field) {
+      throw new Error(`Invoice ${toHex(invoiceId)} was not issued to this set of payers`);
+    }
+
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    const path = payerSetPath(payerCommitments, pureCircuits.buyerKey(privateState.secretKey, invoiceId));
+    if (path === undefined) {
+      throw new Error(`You are not one of the payers of invoice ${toHex(invoiceId)}`);
+    }
+
+    await this.providers.privateStateProvider.set(invoicePrivateStateKey, {
+      ...privateState,
+      payerPaths: { ...privateState.payerPaths, [toHex(invoiceId)]: path },
+    });
+    this.privateStateChanged$.next();
+  }
+
+  /**
+   * Creates the approver commitment that identifies the current user as one of the approvers of an invoice.
+   *
+   * @param invoiceId The id of the invoice.
+   * @returns The commitment to hand over to the issuer for use with {@link requireApprovals}.
+   */
+  async createApproverCommitment(invoiceId: Uint8Array): Promise<Uint8Array> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    return pureCircuits.approverKey(privateState.secretKey, invoiceId);
+  }
+
+  /**
+   * Requires a number of approvers to sign off on an invoice before it can be paid.
+   *
+   * @param invoiceId The id of the invoice.
+   * @param approverCommitments The approver commitments handed over by the buyer, each created with
+   * {@link createApproverCommitment}. Only the Merkle root of the set is recorded on the ledger.
+   * @param threshold The number of approvers that must sign off, between 1 and the number of approvers.
+   *
+   * @remarks
+   * Only the issuer can require approvals, at the buyer's request, and only before anything has been paid.
+   * Once required, approvals can't be dropped again. Escrow invoices are approved milestone by milestone
+   * instead.
+   */
+  async requireApprovals(
+    invoiceId: Uint8Array,
+    approverCommitments: readonly Uint8Array[],
+    threshold: number,
+  ): Promise<void> {
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > approverCommitments.length) {
+      throw new Error(`The threshold must be between 1 and the ${approverCommitments.length} approvers`);
+    }
+
+    this.logger?.info(
+      `requiringApprovals: id=${toHex(invoiceId)}, approvers=${approverCommitments.length}, threshold=${threshold}`,
+    );
+
+    const txData = await this.deployedContract.callTx.requireApprovals(
+      invoiceId,
+      payerSetRoot(approverCommitments),
+      BigInt(threshold),
+    );
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'requireApprovals',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Joins the set of approvers of an invoice, so that the current user can approve it.
+   *
+   * @param invoiceId The id of the invoice.
+   * @param approverCommitments The approver commitments, in the order the issuer passed them to
+   * {@link requireApprovals}. They must include the commitment the current user made with
+   * {@link createApproverCommitment}.
+   *
+   * @remarks
+   * As with {@link joinPayerSet}, only the Merkle path to the current user's commitment is kept, in the
+   * private state.
+   */
+  async joinApproverSet(invoiceId: Uint8Array, approverCommitments: readonly Uint8Array[]): Promise<void> {
+    this.logger?.info(`joiningApproverSet: id=${toHex(invoiceId)}, approvers=${approverCommitments.length}`);
+
+    const invoice = await this.getInvoice(invoiceId);
+    if (
+      !invoice.approversRoot.is_some ||
+      payerSetRoot(approverCommitments).field !== invoice.approversRoot.value.field
+    ) {
+      throw new Error(`Invoice ${toHex(invoiceId)} does not require approval by this set of approvers`);
+    }
+
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    const path = payerSetPath(approverCommitments, pureCircuits.approverKey(privateState.secretKey, invoiceId));
+    if (path === undefined) {
+      throw new Error(`You are not one of the approvers of invoice ${toHex(invoiceId)}`);
+    }
+
+    await this.providers.privateStateProvider.set(invoicePrivateStateKey, {
+      ...privateState,
+      approverPaths: { ...privateState.approverPaths, [toHex(invoiceId)]: path },
+    });
+    this.privateStateChanged$.next();
+  }
+
+  /**
+   * Approves an invoice for payment.
+   *
+   * @param invoiceId The id of the invoice to approve.
+   *
+   * @remarks
+   * Only an approver who has joined the set with {@link joinApproverSet} can approve, proving membership
+   * without revealing which approver they are. Each approver counts once for each cycle of the invoice.
+   */
+  async approve(invoiceId: Uint8Array): Promise<void> {
+    this.logger?.info(`approving: id=${toHex(invoiceId)}`);
+
+    const txData = await this.deployedContract.callTx.approve(invoiceId);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'approve',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Gets the invoice number the next invoice will be issued under.
+   *
+   * @returns The number that follows the highest one used so far under the numbering scheme given when
+   * deploying or joining the contract, e.g. `INV-2026-0005` after `INV-2026-0004`.
+   *
+   * @remarks
+   * The number is allocated afresh from the ledger state each time an invoice is issued; it isn't reserved.
+   */
+  async getNextInvoiceNumber(): Promise<string> {
+    const ledgerState = await this.getLedgerState();
+    return nextInvoiceNumber(ledgerState?.invoiceNumbers ?? [], this.numbering, new Date());
+  }
+
+  /**
+   * Gets the member commitment that identifies the current user in the issuer's team.
+   *
+   * @returns The commitment to hand over to an admin for use with {@link addMember}.
+   *
+   * @remarks
+   * The commitment is made from the member key kept in the private state, which is separate from the
+   * secret key used to pay invoices. Private states made before teams were introduced have no member
+   * key, and use the secret key instead.
+   */
+  async getMemberCommitment(): Promise<Uint8Array> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    return pureCircuits.issuerKey(privateState.memberKey ?? privateState.secretKey);
+  }
+
+  /**
+   * Grants a role in the issuer's team to a member.
+   *
+   * @param memberCommitment The member commitment handed over by the member, as returned by
+   * {@link getMemberCommitment} in the member's own DApp instance.
+   * @param role The role to grant. An issuer can issue and manage invoices, a canceller can only cancel
+   * invoices and subscriptions, and an admin manages the team.
+   *
+   * @remarks
+   * Only an admin can manage the team. The deployer of the contract is its first admin, holding every role.
+   */
+  async addMember(memberCommitment: Uint8Array, role: TeamRole): Promise<void> {
+    this.logger?.info(`addingMember: member=${toHex(memberCommitment)}, role=${Role[role]}`);
+
+    const txData = await this.deployedContract.callTx.addMember(memberCommitment, role);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'addMember',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Revokes a role in the issuer's team from a member.
+   *
+   * @param memberCommitment The member commitment the role was granted to with {@link addMember}.
+   * @param role The role to revoke.
+   *
+   * @remarks
+   * Only an admin can manage the team. A member left without any role is removed from it, and the admin
+   * role of the last admin can't be revoked.
+   */
+  async removeMember(memberCommitment: Uint8Array, role: TeamRole): Promise<void> {
+    this.logger?.info(`removingMember: member=${toHex(memberCommitment)}, role=${Role[role]}`);
+
+    const txData = await this.deployedContract.callTx.removeMember(memberCommitment, role);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'removeMember',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Pauses the contract in an emergency, such as a compromised key.
+   *
+   * @remarks
+   * Only an admin can pause the contract. While it is paused, no invoice or credit note can be issued and no
+   * funds can be paid, escrowed, released, reclaimed from escrow or refunded, nor a receivable assigned, until an
+   * admin resumes it with {@link unpause}.
+   */
+  async pause(): Promise<void> {
+    this.logger?.info('pausing');
+
+    const txData = await this.deployedContract.callTx.pause();
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'pause',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Resumes a contract paused with {@link pause}.
+   *
+   * @remarks
+   * Only an admin can unpause the contract.
+   */
+  async unpause(): Promise<void> {
+    this.logger?.info('unpausing');
+
+    const txData = await this.deployedContract.callTx.unpause();
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'unpause',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+  }
+
+  /**
+   * Gets the public key that invoice documents can be encrypted to for the current user, creating the
+   * key pair on first use.
+   *
+   * @returns The key to hand over to the issuer, alongside the payer commitment, for use with
+   * {@link issueInvoice}.
+   *
+   * @remarks
+   * The wallet's own encryption key can't be used here, since its secret key is never exposed to the
+   * DApp. A separate key pair is kept in the private state instead.
+   */
+  async getEncryptionPublicKey(): Promise<Uint8Array> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    if (privateState.encryptionKeys !== undefined) {
+      return privateState.encryptionKeys.publicKey;
+    }
+
+    const encryptionKeys = await utils.generateEncryptionKeyPair();
+    await this.providers.privateStateProvider.set(invoicePrivateStateKey, { ...privateState, encryptionKeys });
+    this.privateStateChanged$.next();
+    return encryptionKeys.publicKey;
+  }
+
+  /**
+   * Exports a receipt for the current user's latest payment towards an invoice.
+   *
+   * @param invoiceId The id of the paid invoice.
+   * @returns The receipt, which is also kept in the private state so that the payment can be proven
+   * with {@link proveReceipt} later on, even once the invoice has been removed.
+   *
+   * @remarks
+   * Every payment records a receipt commitment on the ledger. It is derived from the buyer's secret key,
+   * so the receipt can only be exported by the buyer who made the payment.
+   *
+   * {@link payInvoice} keeps the receipt of each payment itself. The receipt is rebuilt from the invoice's
+   * current record, so this only recovers a receipt for a payment that is still the latest one towards the
+   * current cycle, such as one made before receipts were kept.
+   */
+  async exportReceipt(invoiceId: Uint8Array): Promise<Receipt> {
+    const invoice = await this.getInvoice(invoiceId);
+    const ledgerState = await this.getLedgerState();
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    const receipt: Receipt = { invoiceId, sequence: invoice.sequence, paidAmount: invoice.paidAmount };
+
+    this.logger?.info(
+      `exportingReceipt: id=${toHex(invoiceId)}, sequence=${receipt.sequence}, paidAmount=${receipt.paidAmount}`,
+    );
+
+    const commitment = pureCircuits.receiptCommitment(privateState.secretKey, receipt);
+    if (ledgerState?.receipts.findPathForLeaf(commitment) === undefined) {
+      throw new Error(`No receipt for your payment of invoice ${toHex(invoiceId)}`);
+    }
+
+    await this.keepReceipt(receipt);
+    return receipt;
+  }
+
+  /**
+   * Proves a payment to an auditor without revealing who made it.
+   *
+   * @param receipt A receipt exported with {@link exportReceipt}.
+   * @returns The hash of the transaction carrying the proof. An auditor can look it up to see that the
+   * invoice with the receipt's id and sequence number was paid up to the receipt's amount.
+   */
+  async proveReceipt(receipt: Receipt): Promise<string> {
+    this.logger?.info(
+      `provingReceipt: id=${toHex(receipt.invoiceId)}, sequence=${receipt.sequence}, paidAmount=${receipt.paidAmount}`,
+    );
+
+    const txData = await this.deployedContract.callTx.proveReceipt(receipt);
+
+    this.logger?.trace({
+      transactionAdded: {
+        circuit: 'proveReceipt',
+        txHash: txData.public.txHash,
+        blockHeight: txData.public.blockHeight,
+      },
+    });
+
+    return txData.public.txHash;
+  }
+
+  /**
+   * Deploys a new invoice contract to the network.
+   *
+   * @param numbering The scheme to allocate invoice numbers by.
+   */
+  static async deploy(
+    providers: InvoiceProviders,
+    logger?: Logger,
+    numbering: InvoiceNumbering = defaultInvoiceNumbering,
+  ): Promise<InvoiceAPI> {
+    logger?.info('deployContract');
+
+    const deployedInvoiceContract = await deployContract<typeof invoiceContractInstance>(providers, {
+      privateStateId: invoicePrivateStateKey,
+      contract: invoiceContractInstance,
+      initialPrivateState: await InvoiceAPI.getPrivateState(providers),
+    });
+
+    logger?.trace({
+      contractDeployed: {
+        finalizedDeployTxData: deployedInvoiceContract.deployTxData.public,
+      },
+    });
+
+    return new InvoiceAPI(deployedInvoiceContract, providers, numbering, logger);
+  }
+
+  /**
+   * Finds an already deployed invoice contract on the network, and joins it.
+   *
+   * @param numbering The scheme to allocate invoice numbers by. Members of a team should all use the same one.
+   */
+  static async join(
+    providers: InvoiceProviders,
+    contractAddress: ContractAddress,
+    logger?: Logger,
+    numbering: InvoiceNumbering = defaultInvoiceNumbering,
+  ): Promise<InvoiceAPI> {
+    logger?.info({
+      joinContract: {
+        contractAddress,
+      },
+    });
+
+    const deployedInvoiceContract = await findDeployedContract<InvoiceContract>(providers, {
+      contractAddress,
+      contract: invoiceContractInstance,
+      privateStateId: invoicePrivateStateKey,
+      initialPrivateState: await InvoiceAPI.getPrivateState(providers),
+    });
+
+    logger?.trace({
+      contractJoined: {
+        finalizedDeployTxData: deployedInvoiceContract.deployTxData.public,
+      },
+    });
+
+    return new InvoiceAPI(deployedInvoiceContract, providers, numbering, logger);
+  }
+
+  private async getLedgerState(): Promise<Ledger | null> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    return contractState != null ? ledger(contractState.data) : null;
+  }
+
+  private async getInvoice(invoiceId: Uint8Array): Promise<Invoice> {
+    const ledgerState = await this.getLedgerState();
+
+    if (!ledgerState?.invoices.member(invoiceId)) {
+      throw new Error(`No invoice with id ${toHex(invoiceId)}`);
+    }
+
+    return ledgerState.invoices.lookup(invoiceId);
+  }
+
+  private async prepareIssue(
+    invoiceData: InvoiceData,
+    payerCommitment: Uint8Array | readonly Uint8Array[],
+    buyerEncryptionKey?: Uint8Array,
+  ) {
+    const document = utils.canonicalJson(invoiceData);
+    const docHash = utils.documentHash(document);
+    const encryptedDoc =
+      buyerEncryptionKey !== undefined
+        ? { is_some: true, value: await utils.encryptDocument(buyerEncryptionKey, document) }
+        : { is_some: false, value: '' };
+    // Invoices are paid in the native token unless the document names another
+    const tokenType = encodeTokenType(invoiceData.tokenType ?? nativeToken());
+    // A set of payers is recorded by the Merkle root of their commitments alone
+    const [buyerPk, payersRoot] =
+      payerCommitment instanceof Uint8Array
+        ? [payerCommitment, { is_some: false, value: { field: 0n } }]
+        : [new Uint8Array(32), { is_some: true, value: payerSetRoot(payerCommitment) }];
+    // A split is recorded as a fixed size table of payee coin public keys and shares
+    const splits = {
+      is_some: invoiceData.split !== undefined,
+      value: payeeSplitTable(
+        (invoiceData.split ?? []).map(({ payee, share }) => ({
+          payee: { bytes: fromHex(payee) },
+          share: BigInt(share),
+        })),
+      ),
+    };
+
+    // Terms are recorded with the end of the discount period in seconds, like the due date
+    const terms = {
+      discount: BigInt(invoiceData.terms?.discount ?? 0),
+      discountUntil:
+        invoiceData.terms?.discountUntil !== undefined
+          ? BigInt(Math.floor(new Date(invoiceData.terms.discountUntil).getTime() / 1000))
+          : 0n,
+      lateFee: BigInt(invoiceData.terms?.lateFee ?? 0),
+    };
+
+    // Should another member of the team take the same number first, the contract rejects the transaction
+    const invoiceNumber = await this.getNextInvoiceNumber();
+
+    return { document, invoiceNumber, docHash, encryptedDoc, tokenType, buyerPk, payersRoot, splits, terms };
+  }
+
+  private async decryptDocument(invoice: Invoice, privateState: InvoicePrivateState): Promise<string | undefined> {
+    const docHash = toHex(invoice.docHash);
+    const decrypted = this.decryptedDocuments.get(docHash);
+    if (decrypted !== undefined || privateState.encryptionKeys === undefined) {
+      return decrypted;
+    }
+
+    try {
+      const document = await utils.decryptDocument(privateState.encryptionKeys.secretKey, invoice.encryptedDoc.value);
+      if (toHex(utils.documentHash(document)) !== docHash) {
+        this.logger?.warn(`encryptedDocumentMismatch: hash=${docHash}`);
+        return undefined;
+      }
+      this.decryptedDocuments.set(docHash, document);
+      return document;
+    } catch {
+      // Encrypted to somebody else
+      return undefined;
+    }
+  }
+
+  private async storeDocument(docHash: Uint8Array, document: string): Promise<void> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    await this.providers.privateStateProvider.set(invoicePrivateStateKey, {
+      ...privateState,
+      documents: { ...privateState.documents, [toHex(docHash)]: document },
+    });
+    this.privateStateChanged$.next();
+  }
+
+  private async keepReceipt(receipt: Receipt): Promise<void> {
+    const privateState = await InvoiceAPI.getPrivateState(this.providers);
+    if (!privateState.receipts?.some((existing) => sameReceipt(existing, receipt))) {
+      await this.providers.privateStateProvider.set(invoicePrivateStateKey, {
+        ...privateState,
+        receipts: [...(privateState.receipts ?? []), receipt],
+      });
+      this.privateStateChanged$.next();
+    }
+  }
+
+  private static async getPrivateState(providers: InvoiceProviders): Promise<InvoicePrivateState> {
+    const existingPrivateState = await providers.privateStateProvider.get(invoicePrivateStateKey);
+    return (
+      existingPrivateState ??
+      createInvoicePrivateState(utils.randomBytes(32), {}, [], {}, undefined, utils.randomBytes(32))
+    );
+  }
+}
+
+/** @internal */
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Works out the amount charged for paying off `portion` of an invoice at the given time, in the same way as
+ * the `payInvoice` circuit does against the block time.
+ *
+ * @internal
+ */
+const chargeFor = (portion: bigint, invoice: Invoice, at: Date): bigint => {
+  const now = BigInt(Math.floor(at.getTime() / 1000));
+  if (invoice.terms.discount > 0n && now < invoice.terms.discountUntil) {
+    return portion - (portion * invoice.terms.discount) / BASIS_POINTS;
+  }
+  if (invoice.terms.lateFee > 0n && now > invoice.dueAt) {
+    return portion + (portion * invoice.terms.lateFee) / BASIS_POINTS;
+  }
+  return portion;
+};
+
+/**
+ * Allocates the invoice number that follows the highest of the given numbers under `numbering`, at the given time.
+ *
+ * @internal
+ */
+const nextInvoiceNumber = (numbers: Iterable<string>, numbering: InvoiceNumbering, at: Date): string => {
+  const prefix = numbering.yearly ? `${numbering.prefix}-${at.getFullYear()}-` : `${numbering.prefix}-`;
+  const last = Array.from(numbers)
+    .filter((number) => number.startsWith(prefix) && /^\d+$/.test(number.slice(prefix.length)))
+    .reduce((highest, number) => Math.max(highest, Number(number.slice(prefix.length))), 0);
+  return `${prefix}${String(last + 1).padStart(numbering.digits, '0')}`;
+};
+
+/**
+ * Gets the invoice number of an invoice, adding the cycle to the number of the first cycle for later cycles of a
+ * subscription, e.g. `INV-2026-0001-2` for the second cycle of `INV-2026-0001`. {@link nextInvoiceNumber} never
+ * allocates such a number.
+ *
+ * @internal
+ */
+const invoiceNumber = (invoice: Invoice): string =>
+  invoice.cycle > 1n ? `${invoice.number}-${invoice.cycle}` : invoice.number;
+
+/** @internal */
+const sameReceipt = (a: Receipt, b: Receipt): boolean =>
+  toHex(a.invoiceId) === toHex(b.invoiceId) && a.sequence === b.sequence && a.paidAmount === b.paidAmount;
 
 /**
  * A namespace that represents the exports from the `'utils'` sub-package.
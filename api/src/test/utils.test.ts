@@ -0,0 +1,81 @@
+// This file is part of midnightntwrk/example-counter.
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalJson,
+  decryptDocument,
+  documentHash,
+  encryptDocument,
+  generateEncryptionKeyPair,
+} from '../utils/index.js';
+
+describe('canonicalJson', () => {
+  it('sorts top-level keys', () => {
+    expect(canonicalJson({ title: 'Website', amount: '100', currency: 'NIGHT' })).toEqual(
+      '{"amount":"100","currency":"NIGHT","title":"Website"}',
+    );
+  });
+
+  it('keeps and sorts the fields of nested objects', () => {
+    const document = {
+      title: 'Website',
+      split: [
+        { share: 6000, payee: 'aa' },
+        { share: 4000, payee: 'bb' },
+      ],
+      milestones: { design: '40', build: '60' },
+    };
+    expect(canonicalJson(document)).toEqual(
+      '{"milestones":{"build":"60","design":"40"},' +
+        '"split":[{"payee":"aa","share":6000},{"payee":"bb","share":4000}],"title":"Website"}',
+    );
+  });
+
+  it('hashes documents that differ only in nested key order to the same value', () => {
+    const first = canonicalJson({ split: [{ payee: 'aa', share: 10000 }], title: 'Website' });
+    const second = canonicalJson({ title: 'Website', split: [{ share: 10000, payee: 'aa' }] });
+    expect(documentHash(first)).toEqual(documentHash(second));
+  });
+
+  it('hashes documents with different nested fields to different values', () => {
+    const first = canonicalJson({ split: [{ payee: 'aa', share: 6000 }] });
+    const second = canonicalJson({ split: [{ payee: 'aa', share: 4000 }] });
+    expect(documentHash(first)).not.toEqual(documentHash(second));
+  });
+});
+
+describe('encryptDocument', () => {
+  const document = canonicalJson({ title: 'Website', amount: '100', currency: 'NIGHT' });
+
+  it('encrypts a document that the recipient can decrypt', async () => {
+    const { publicKey, secretKey } = await generateEncryptionKeyPair();
+    const encryptedDocument = await encryptDocument(publicKey, document);
+    expect(encryptedDocument).not.toContain('Website');
+    expect(await decryptDocument(secretKey, encryptedDocument)).toEqual(document);
+  });
+
+  it("doesn't let anyone else decrypt the document", async () => {
+    const recipient = await generateEncryptionKeyPair();
+    const other = await generateEncryptionKeyPair();
+    const encryptedDocument = await encryptDocument(recipient.publicKey, document);
+    await expect(decryptDocument(other.secretKey, encryptedDocument)).rejects.toThrow();
+  });
+
+  it('rejects a malformed encrypted document', async () => {
+    const { secretKey } = await generateEncryptionKeyPair();
+    await expect(decryptDocument(secretKey, 'not-encrypted')).rejects.toThrow('Malformed encrypted document');
+  });
+});
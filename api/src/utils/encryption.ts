@@ -0,0 +1,118 @@
+/**
+ * Provides public key encryption of invoice documents.
+ *
+ * @remarks
+ * Documents are encrypted with an ephemeral-static ECDH key agreement over P-256, HKDF-SHA-256 and
+ * AES-256-GCM, using only the Web Crypto API so that the same code runs in the browser and in Node.
+ *
+ * @module
+ */
+
+import { fromHex, toHex } from '@midnight-ntwrk/midnight-js-utils';
+
+/** @internal */
+const keyAgreement = { name: 'ECDH', namedCurve: 'P-256' };
+
+/**
+ * A Web Crypto key, taken from the `crypto.subtle` signatures rather than the DOM lib so that the module also
+ * type-checks for Node.
+ *
+ * @internal
+ */
+type WebCryptoKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+/** @internal */
+type WebCryptoKeyUsage = Parameters<typeof crypto.subtle.deriveKey>[4] extends Iterable<infer Usage> ? Usage : never;
+
+/** @internal */
+const keyDerivationInfo = new TextEncoder().encode('midnight-billow:invoice-document');
+
+/**
+ * A key pair that invoice documents can be encrypted to.
+ */
+export type EncryptionKeyPair = {
+  /** The public key, as an uncompressed P-256 point. */
+  readonly publicKey: Uint8Array;
+
+  /** The PKCS #8 encoded secret key. */
+  readonly secretKey: Uint8Array;
+};
+
+/** The length in bytes of an encryption public key. */
+export const ENCRYPTION_PUBLIC_KEY_LENGTH = 65;
+
+/**
+ * Generates a new key pair to receive encrypted invoice documents with.
+ *
+ * @returns A new {@link EncryptionKeyPair}.
+ */
+export const generateEncryptionKeyPair = async (): Promise<EncryptionKeyPair> => {
+  const keyPair = await crypto.subtle.generateKey(keyAgreement, true, ['deriveBits']);
+  return {
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+    secretKey: new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)),
+  };
+};
+
+/**
+ * Encrypts a document so that only the holder of the matching secret key can read it.
+ *
+ * @param publicKey The recipient's encryption public key.
+ * @param document The document to encrypt.
+ * @returns The encrypted document, encoded as a string for recording on the ledger.
+ */
+export const encryptDocument = async (publicKey: Uint8Array, document: string): Promise<string> => {
+  const recipientKey = await crypto.subtle.importKey('raw', new Uint8Array(publicKey), keyAgreement, false, []);
+  const ephemeralKeyPair = await crypto.subtle.generateKey(keyAgreement, true, ['deriveBits']);
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeralKeyPair.publicKey));
+  const key = await deriveDocumentKey(recipientKey, ephemeralKeyPair.privateKey, ephemeralPublicKey, 'encrypt');
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(document));
+
+  return [ephemeralPublicKey, iv, new Uint8Array(ciphertext)].map(toHex).join('.');
+};
+
+/**
+ * Decrypts a document produced by {@link encryptDocument}.
+ *
+ * @param secretKey The recipient's encryption secret key.
+ * @param encryptedDocument The encrypted document.
+ * @returns The document.
+ * @throws If `encryptedDocument` was not encrypted to the public key matching `secretKey`, or has been
+ * tampered with.
+ */
+export const decryptDocument = async (secretKey: Uint8Array, encryptedDocument: string): Promise<string> => {
+  const [ephemeralPublicKey, iv, ciphertext] = encryptedDocument
+    .split('.')
+    .map((part) => new Uint8Array(fromHex(part)));
+  if (ciphertext === undefined) {
+    throw new Error('Malformed encrypted document');
+  }
+
+  const recipientKey = await crypto.subtle.importKey('pkcs8', new Uint8Array(secretKey), keyAgreement, false, [
+    'deriveBits',
+  ]);
+  const senderKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, keyAgreement, false, []);
+  const key = await deriveDocumentKey(senderKey, recipientKey, ephemeralPublicKey, 'decrypt');
+  const document = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+
+  return new TextDecoder().decode(document);
+};
+
+/** @internal */
+const deriveDocumentKey = async (
+  publicKey: WebCryptoKey,
+  privateKey: WebCryptoKey,
+  ephemeralPublicKey: Uint8Array<ArrayBuffer>,
+  usage: WebCryptoKeyUsage,
+): Promise<WebCryptoKey> => {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: ephemeralPublicKey, info: keyDerivationInfo },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage],
+  );
+};
@@ -19,6 +19,10 @@
  * @module
  */
 
+import { CompactTypeOpaqueString, persistentHash } from '@midnight-ntwrk/compact-runtime';
+
+export * from './encryption.js';
+
 /**
  * Generates a buffer containing a series of randomly generated bytes.
  *
@@ -30,3 +34,25 @@ export const randomBytes = (length: number): Uint8Array => {
   crypto.getRandomValues(bytes);
   return bytes;
 };
+
+/**
+ * Produces the canonical form of a JSON document, with object keys in sorted order at every level, so
+ * that the same document always hashes to the same value.
+ *
+ * @param document The document to encode.
+ * @returns The canonical JSON encoding of `document`.
+ */
+export const canonicalJson = (document: Readonly<Record<string, unknown>>): string =>
+  JSON.stringify(document, (_key, value: unknown) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value,
+  );
+
+/**
+ * Computes the hash of a canonical document as recorded on the ledger.
+ *
+ * @param document The canonical document, as produced by {@link canonicalJson}.
+ * @returns The `persistentHash` of `document`.
+ */
+export const documentHash = (document: string): Uint8Array => persistentHash(new CompactTypeOpaqueString(), document);
@@ -14,7 +14,7 @@
 // limitations under the License.
 
 /*
- * This file is the main driver for the Midnight bulletin board example.
+ * This file is the main driver for the Midnight Billow invoice example.
  * The entry point is the run function, at the end of the file.
  * We expect the startup files (testnet-remote.ts, standalone.ts, etc.) to
  * call run with some specific configuration that sets the network addresses
@@ -28,15 +28,17 @@ import { stdin as input, stdout as output } from 'node:process';
 import { WebSocket } from 'ws';
 // import { webcrypto } from 'crypto';
 import {
-  type BBoardProviders,
-  BBoardAPI,
+  type InvoiceProviders,
+  type InvoiceCircuitKeys,
+  InvoiceAPI,
   utils,
-  type BBoardDerivedState,
-  type DeployedBBoardContract,
+  type InvoiceContractDerivedState,
+  type DeployedInvoiceContract,
   type PrivateStateId,
-  bboardPrivateStateKey,
+  invoicePrivateStateKey,
 } from '../../api/src/index';
-import { ledger, type Ledger, State } from '../../contract/src/managed/bboard/contract/index.cjs';
+import { ledger, type Ledger, Role, State } from '../../contract/src/managed/invoice/contract/index.cjs';
+import { MAX_MILESTONES } from '../../contract/src/witnesses';
 import {
   type BalancedTransaction,
   createBalancedTx,
@@ -46,7 +48,7 @@ import {
 } from '@midnight-ntwrk/midnight-js-types';
 import { type Wallet } from '@midnight-ntwrk/wallet-api';
 import * as Rx from 'rxjs';
-import { type CoinInfo, nativeToken, Transaction, type TransactionId } from '@midnight-ntwrk/ledger';
+import { type CoinInfo, encodeTokenType, nativeToken, Transaction, type TransactionId } from '@midnight-ntwrk/ledger';
 import { Transaction as ZswapTransaction } from '@midnight-ntwrk/zswap';
 import { NodeZkConfigProvider } from '@midnight-ntwrk/midnight-js-node-zk-config-provider';
 import { type Resource, WalletBuilder } from '@midnight-ntwrk/wallet';
@@ -57,32 +59,29 @@ import { type Config, StandaloneConfig } from './config.js';
 import type { StartedDockerComposeEnvironment, DockerComposeEnvironment } from 'testcontainers';
 import { levelPrivateStateProvider } from '@midnight-ntwrk/midnight-js-level-private-state-provider';
 import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
-import { toHex, assertIsContractAddress } from '@midnight-ntwrk/midnight-js-utils';
+import { toHex, fromHex, isHex, assertIsContractAddress } from '@midnight-ntwrk/midnight-js-utils';
 import { getLedgerNetworkId, getZswapNetworkId } from '@midnight-ntwrk/midnight-js-network-id';
 
 // @ts-expect-error: It's needed to enable WebSocket usage through apollo
 globalThis.WebSocket = WebSocket;
 
 /* **********************************************************************
- * getBBoardLedgerState: a helper that queries the current state of
- * the data on the ledger, for a specific bulletin board contract.
+ * getInvoiceLedgerState: a helper that queries the current state of
+ * the data on the ledger, for a specific invoice contract.
  * Note that the Ledger type returned here is not some generic,
  * abstract ledger object, but specifically the type generated by
  * the Compact compiler to correspond to the ledger declaration
- * in the bulletin board contract.
+ * in the invoice contract.
  */
 
-export const getBBoardLedgerState = async (
-  providers: BBoardProviders,
+export const getInvoiceLedgerState = async (
+  providers: InvoiceProviders,
   contractAddress: ContractAddress,
 ): Promise<Ledger | null> => {
   assertIsContractAddress(contractAddress);
   const contractState = await providers.publicDataProvider.queryContractState(contractAddress);
   return contractState != null ? ledger(contractState.data) : null;
 };
-// providers.publicDataProvider
-//   .queryContractState(contractAddress)
-//   .then((contractState) => (contractState != null ? ledger(contractState.data) : null));
 
 /* **********************************************************************
  * deployOrJoin: returns a contract, by prompting the user about
@@ -92,23 +91,27 @@ export const getBBoardLedgerState = async (
 
 const DEPLOY_OR_JOIN_QUESTION = `
 You can do one of the following:
-  1. Deploy a new bulletin board contract
-  2. Join an existing bulletin board contract
+  1. Deploy a new invoice contract
+  2. Join an existing invoice contract
   3. Exit
 Which would you like to do? `;
 
-const deployOrJoin = async (providers: BBoardProviders, rli: Interface, logger: Logger): Promise<BBoardAPI | null> => {
-  let api: BBoardAPI | null = null;
+const deployOrJoin = async (
+  providers: InvoiceProviders,
+  rli: Interface,
+  logger: Logger,
+): Promise<InvoiceAPI | null> => {
+  let api: InvoiceAPI | null = null;
 
   while (true) {
     const choice = await rli.question(DEPLOY_OR_JOIN_QUESTION);
     switch (choice) {
       case '1':
-        api = await BBoardAPI.deploy(providers, logger);
+        api = await InvoiceAPI.deploy(providers, logger);
         logger.info(`Deployed contract at address: ${api.deployedContractAddress}`);
         return api;
       case '2':
-        api = await BBoardAPI.join(providers, await rli.question('What is the contract address (in hex)? '), logger);
+        api = await InvoiceAPI.join(providers, await rli.question('What is the contract address (in hex)? '), logger);
         logger.info(`Joined contract at address: ${api.deployedContractAddress}`);
         return api;
       case '3':
@@ -122,25 +125,35 @@ const deployOrJoin = async (providers: BBoardProviders, rli: Interface, logger:
 
 /* **********************************************************************
  * displayLedgerState: shows the values of each of the fields declared
- * by the contract to be in the ledger state of the bulletin board.
+ * by the contract to be in the ledger state of the invoice contract.
  */
 
 const displayLedgerState = async (
-  providers: BBoardProviders,
-  deployedBBoardContract: DeployedBBoardContract,
+  providers: InvoiceProviders,
+  deployedInvoiceContract: DeployedInvoiceContract,
   logger: Logger,
 ): Promise<void> => {
-  const contractAddress = deployedBBoardContract.deployTxData.public.contractAddress;
-  const ledgerState = await getBBoardLedgerState(providers, contractAddress);
+  const contractAddress = deployedInvoiceContract.deployTxData.public.contractAddress;
+  const ledgerState = await getInvoiceLedgerState(providers, contractAddress);
   if (ledgerState === null) {
-    logger.info(`There is no bulletin board contract deployed at ${contractAddress}`);
+    logger.info(`There is no invoice contract deployed at ${contractAddress}`);
   } else {
-    const boardState = ledgerState.state === State.OCCUPIED ? 'occupied' : 'vacant';
-    const latestMessage = !ledgerState.message.is_some ? 'none' : ledgerState.message.value;
-    logger.info(`Current state is: '${boardState}'`);
-    logger.info(`Current message is: '${latestMessage}'`);
     logger.info(`Current sequence is: ${ledgerState.sequence}`);
-    logger.info(`Current owner is: '${toHex(ledgerState.owner)}'`);
+    logger.info(`Team members: ${ledgerState.team.size()}, of whom ${ledgerState.admins} admins`);
+    logger.info(`Contract is paused: ${ledgerState.paused}`);
+    logger.info(`Receipts recorded: ${ledgerState.receipts.firstFree()}`);
+    logger.info(`Active subscriptions: ${ledgerState.subscriptions.size()}`);
+    logger.info(`Active escrows: ${ledgerState.escrows.size()}`);
+    logger.info(`Credit notes issued: ${ledgerState.creditNotes.size()}`);
+    logger.info(`Receivables assigned: ${ledgerState.assignments.size()}`);
+    logger.info(`Revisions recorded: ${ledgerState.revisions.size()}`);
+    logger.info(`Invoice numbers used: ${ledgerState.invoiceNumbers.size()}`);
+    for (const [id, invoice] of ledgerState.invoices) {
+      logger.info(
+        `Invoice ${toHex(id)} (${invoice.number}): state '${State[invoice.state]}', paid ${invoice.paidAmount} of ${invoice.amount}, ` +
+          `due at ${invoice.dueAt}, buyer '${toHex(invoice.buyerPk)}'`,
+      );
+    }
   }
 };
 
@@ -148,83 +161,835 @@ const displayLedgerState = async (
  * displayPrivateState: shows the hex-formatted value of the secret key.
  */
 
-const displayPrivateState = async (providers: BBoardProviders, logger: Logger): Promise<void> => {
-  const privateState = await providers.privateStateProvider.get(bboardPrivateStateKey);
+const displayPrivateState = async (providers: InvoiceProviders, logger: Logger): Promise<void> => {
+  const privateState = await providers.privateStateProvider.get(invoicePrivateStateKey);
   if (privateState === null) {
-    logger.info(`There is no existing bulletin board private state`);
+    logger.info(`There is no existing invoice private state`);
   } else {
     logger.info(`Current secret key is: ${toHex(privateState.secretKey)}`);
+    if (privateState.memberKey !== undefined) {
+      logger.info(`Current member key is: ${toHex(privateState.memberKey)}`);
+    }
+    logger.info(`Invoice documents held: ${Object.keys(privateState.documents ?? {}).length}`);
+    logger.info(`Receipts held: ${(privateState.receipts ?? []).length}`);
+    if (privateState.encryptionKeys !== undefined) {
+      logger.info(`Current encryption key is: ${toHex(privateState.encryptionKeys.publicKey)}`);
+    }
   }
 };
 
 /* **********************************************************************
  * displayDerivedState: shows the values of derived state which is made
  * by combining the ledger state with private state. In this example, the
- * derived state compares the owner's key with the private secret key to
- * determine if the current user is the owner of the current message.
+ * derived state compares the payer commitment of each invoice with one
+ * made from the private secret key to determine if the current user can
+ * pay it.
  */
 
-const displayDerivedState = (ledgerState: BBoardDerivedState | undefined, logger: Logger) => {
-  if (ledgerState === undefined) {
-    logger.info(`No bulletin board state currently available`);
+const displayDerivedState = (contractState: InvoiceContractDerivedState | undefined, logger: Logger) => {
+  if (contractState === undefined) {
+    logger.info(`No invoice state currently available`);
   } else {
-    const boardState = ledgerState.state === State.OCCUPIED ? 'occupied' : 'vacant';
-    const latestMessage = ledgerState.state === State.OCCUPIED ? ledgerState.message : 'none';
-    logger.info(`Current state is: '${boardState}'`);
-    logger.info(`Current message is: '${latestMessage}'`);
-    logger.info(`Current sequence is: ${ledgerState.sequence}`);
-    logger.info(`Current owner is: '${ledgerState.isOwner ? 'you' : 'not you'}'`);
+    logger.info(`Current sequence is: ${contractState.sequence}`);
+    logger.info(`Next invoice number is: ${contractState.nextNumber}`);
+    if (contractState.paused) {
+      logger.info('The contract is paused: no invoice can be issued or paid');
+    }
+    logger.info(`Current issuer is: '${contractState.isIssuer ? 'you' : 'not you'}'`);
+    logger.info(`Team members: ${contractState.team.length}${contractState.isAdmin ? ', you are an admin' : ''}`);
+    for (const invoice of contractState.invoices.values()) {
+      const title = invoice.invoiceData === 'encrypted' ? 'encrypted' : (invoice.invoiceData?.title ?? 'untitled');
+      const overdue = invoice.isOverdue ? ', overdue' : '';
+      const cancelled = invoice.cancelReason !== undefined ? `, cancelled: '${invoice.cancelReason}'` : '';
+      const assigned = invoice.assignments.length > 0 ? `, assigned to '${invoice.payee}'` : '';
+      const revised =
+        invoice.revision > 0
+          ? `, revision ${invoice.revision}${invoice.acknowledged ? '' : ' (not acknowledged by the buyer)'}`
+          : '';
+      const approved = invoice.threshold > 0 ? `, approved by ${invoice.approvals} of ${invoice.threshold}` : '';
+      logger.info(
+        `Invoice ${invoice.number} '${title}' (${invoice.id}): state '${State[invoice.state]}', outstanding ${invoice.outstanding} ` +
+          `(${invoice.amountDueNow} due now) ` +
+          `of ${invoice.amount}, due ${invoice.dueAt.toISOString()}${overdue}${cancelled}${assigned}${revised}${approved}, ` +
+          `payer is '${invoice.canPay ? 'you' : 'not you'}'${invoice.payerSet ? ' (one of a payer set)' : ''}`,
+      );
+    }
   }
 };
 
 /* **********************************************************************
- * mainLoop: the main interactive menu of the bulletin board CLI.
+ * askInvoiceId: prompts for the hex-encoded id of an invoice, returning
+ * null if it is not 32 bytes of hex.
+ */
+
+const askInvoiceId = async (
+  rli: Interface,
+  question = 'What is the invoice id (in hex)? ',
+): Promise<Uint8Array | null> => {
+  const answer = (await rli.question(question)).trim();
+  return isHex(answer, 32) ? fromHex(answer) : null;
+};
+
+/* **********************************************************************
+ * askCommitments: prompts for a comma separated list of payer (or
+ * approver) commitments, returning null if any of them is not 32 bytes
+ * of hex.
+ */
+
+const askCommitments = async (rli: Interface, question: string): Promise<Uint8Array[] | null> => {
+  const answers = (await rli.question(question))
+    .split(',')
+    .map((answer) => answer.trim())
+    .filter((answer) => answer !== '');
+  return answers.length > 0 && answers.every((answer) => isHex(answer, 32)) ? answers.map(fromHex) : null;
+};
+
+/* **********************************************************************
+ * issueInvoice: prompts for the details of a new invoice and issues it,
+ * starts a subscription billing it every period when `recurring`,
+ * issues it to be paid into escrow and released by milestones when
+ * `escrow`, or sends it as a quote for the buyer to accept when `quote`.
+ */
+
+type IssueKind = 'once' | 'recurring' | 'escrow' | 'quote';
+
+const issueInvoice = async (
+  invoiceApi: InvoiceAPI,
+  rli: Interface,
+  logger: Logger,
+  kind: IssueKind = 'once',
+): Promise<void> => {
+  // The payer commitment is bound to the invoice id the buyer chose, so
+  // the invoice must be issued under that id and no other.
+  const invoiceId = await askInvoiceId(rli, "What is the invoice id from the buyer's request (in hex)? ");
+  if (invoiceId === null) {
+    logger.error('The invoice id must be 32 bytes of hex');
+    return;
+  }
+  const title = await rli.question('What is the title of the invoice? ');
+  const description = await rli.question('What is the description of the invoice? ');
+  const tokenType =
+    (await rli.question('Which token is the invoice paid in (token type in hex, empty for NIGHT)? ')).trim() ||
+    nativeToken();
+  try {
+    encodeTokenType(tokenType);
+  } catch {
+    logger.error(`Invalid token type: ${tokenType}`);
+    return;
+  }
+  const currency = tokenLabel(tokenType);
+  const milestones =
+    kind === 'escrow'
+      ? (
+          await rli.question(
+            `What are the milestones (title:amount in ${currency}, comma separated, at most ${MAX_MILESTONES})? `,
+          )
+        )
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry !== '')
+          .map((entry) => {
+            const separator = entry.lastIndexOf(':');
+            return { title: entry.slice(0, separator).trim(), amount: entry.slice(separator + 1).trim() };
+          })
+      : [];
+  if (kind === 'escrow') {
+    if (milestones.length === 0 || milestones.length > MAX_MILESTONES) {
+      logger.error(`An escrow is released in between 1 and ${MAX_MILESTONES} milestones`);
+      return;
+    }
+    if (milestones.some(({ title, amount }) => title === '' || !/^[1-9]\d*$/.test(amount))) {
+      logger.error('Each milestone must have a title and a positive whole amount');
+      return;
+    }
+  }
+  // The amount of an escrow invoice is the sum of its milestones
+  const amount =
+    kind === 'escrow'
+      ? milestones.reduce((total, milestone) => total + BigInt(milestone.amount), 0n).toString()
+      : (await rli.question(`What amount is due (in ${currency})? `)).trim();
+  if (!/^\d+$/.test(amount)) {
+    logger.error(`Invalid amount: ${amount}`);
+    return;
+  }
+  const payerCommitments = await askCommitments(
+    rli,
+    'What are the payer commitments (in hex, comma separated to let any of several payers pay)? ',
+  );
+  if (payerCommitments === null) {
+    logger.error('Each payer commitment must be 32 bytes of hex');
+    return;
+  }
+  const dueAt = new Date(`${(await rli.question('When is payment due (YYYY-MM-DD)? ')).trim()}T23:59:59`);
+  if (isNaN(dueAt.getTime())) {
+    logger.error('Invalid due date');
+    return;
+  }
+  const encryptionKey = (
+    await rli.question('What is the encryption key from the buyer (in hex, empty to send the document yourself)? ')
+  ).trim();
+  if (encryptionKey !== '' && !isHex(encryptionKey, utils.ENCRYPTION_PUBLIC_KEY_LENGTH)) {
+    logger.error(`The encryption key must be ${utils.ENCRYPTION_PUBLIC_KEY_LENGTH} bytes of hex`);
+    return;
+  }
+  // Escrow funds are released to the issuer only
+  const split = (
+    kind === 'escrow'
+      ? ''
+      : await rli.question(
+          'How should payments be split (payee coin public key:percent, comma separated, empty to be paid yourself)? ',
+        )
+  )
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry) => {
+      const [payee, percent] = entry.split(':').map((part) => part.trim());
+      return { payee, share: percentToBasisPoints(percent ?? '') ?? 0 };
+    });
+  if (split.some(({ payee, share }) => !isHex(payee, 32) || share === 0)) {
+    logger.error('Each payee must be a 32 byte hex coin public key with a positive percentage');
+    return;
+  }
+  if (split.length > 0 && split.reduce((total, { share }) => total + share, 0) !== 10000) {
+    logger.error('The shares must add up to 100%');
+    return;
+  }
+  // Escrows are funded in full in one go, so they have no discount or late fee
+  const [discountPercent, discountDays] = (
+    kind === 'escrow'
+      ? ''
+      : await rli.question('What early-payment discount applies (percent:days after today, empty for none)? ')
+  )
+    .split(':')
+    .map((part) => part.trim());
+  const lateFeePercent = (
+    kind === 'escrow' ? '' : await rli.question('What late fee applies after the due date (percent, empty for none)? ')
+  ).trim();
+  const discount = discountPercent ? percentToBasisPoints(discountPercent) : 0;
+  const lateFee = lateFeePercent ? percentToBasisPoints(lateFeePercent) : 0;
+  if (discount === undefined || discount >= 10000 || lateFee === undefined) {
+    logger.error(
+      'The discount must be a percentage below 100 and the late fee a percentage, with at most two decimals',
+    );
+    return;
+  }
+  const discountUntil = new Date(`${new Date().toISOString().split('T')[0]}T23:59:59`);
+  discountUntil.setDate(discountUntil.getDate() + Number(discountDays ?? 0));
+  if (discount > 0 && (!/^[1-9]\d*$/.test(discountDays ?? '') || discountUntil > dueAt)) {
+    logger.error('The discount period must be a positive number of days ending by the due date');
+    return;
+  }
+  const invoiceData = {
+    title,
+    description,
+    issuedAt: new Date().toISOString().split('T')[0],
+    currency,
+    ...(tokenType !== nativeToken() && { tokenType }),
+    ...(split.length > 0 && { split }),
+    ...(milestones.length > 0 && { milestones }),
+    ...((discount > 0 || lateFee > 0) && {
+      terms: { discount, ...(discount > 0 && { discountUntil: discountUntil.toISOString() }), lateFee },
+    }),
+  };
+  const payer = payerCommitments.length === 1 ? payerCommitments[0] : payerCommitments;
+  const buyerEncryptionKey = encryptionKey === '' ? undefined : fromHex(encryptionKey);
+  let document: string;
+  if (kind === 'recurring') {
+    const periodDays = (await rli.question('How many days apart are the cycles due? ')).trim();
+    const count = (await rli.question('How many cycles should be billed? ')).trim();
+    if (!/^[1-9]\d*$/.test(periodDays) || !/^[1-9]\d*$/.test(count)) {
+      logger.error('The period and the number of cycles must be positive whole numbers');
+      return;
+    }
+    document = await invoiceApi.createSubscription(
+      invoiceId,
+      BigInt(amount),
+      invoiceData,
+      payer,
+      dueAt,
+      Number(periodDays),
+      Number(count),
+      buyerEncryptionKey,
+    );
+    logger.info(`Started subscription ${toHex(invoiceId)}`);
+  } else if (kind === 'escrow') {
+    document = await invoiceApi.issueEscrow(invoiceId, invoiceData, payer, dueAt, buyerEncryptionKey);
+    logger.info(`Issued escrow invoice ${toHex(invoiceId)} for ${amount} ${currency}`);
+  } else if (kind === 'quote') {
+    document = await invoiceApi.issueQuote(invoiceId, BigInt(amount), invoiceData, payer, dueAt, buyerEncryptionKey);
+    logger.info(`Sent quote ${toHex(invoiceId)} for ${amount} ${currency}`);
+  } else {
+    document = await invoiceApi.issueInvoice(invoiceId, BigInt(amount), invoiceData, payer, dueAt, buyerEncryptionKey);
+    logger.info(`Issued invoice ${toHex(invoiceId)}`);
+  }
+  if (encryptionKey === '') {
+    logger.info(`Send this invoice document to the buyer: ${document}`);
+  }
+};
+
+/* **********************************************************************
+ * percentToBasisPoints: converts a percentage with at most two decimals
+ * to basis points, or undefined if it is not one.
+ */
+
+const percentToBasisPoints = (percent: string): number | undefined =>
+  /^\d+(\.\d{1,2})?$/.test(percent) ? Math.round(Number(percent) * 100) : undefined;
+
+/* **********************************************************************
+ * tokenLabel: the name a token is shown by, NIGHT for the native token
+ * and its token type otherwise.
+ */
+
+const tokenLabel = (tokenType: string): string => (tokenType === nativeToken() ? 'NIGHT' : tokenType);
+
+/* **********************************************************************
+ * withInvoiceId: prompts for an invoice id and runs the given action
+ * against it, reporting an invalid id instead.
+ */
+
+const withInvoiceId = async (
+  rli: Interface,
+  logger: Logger,
+  action: (invoiceId: Uint8Array) => Promise<void>,
+): Promise<void> => {
+  const invoiceId = await askInvoiceId(rli);
+  if (invoiceId === null) {
+    logger.error('The invoice id must be 32 bytes of hex');
+    return;
+  }
+  await action(invoiceId);
+};
+
+/* **********************************************************************
+ * proveReceipt: lists the receipts exported so far and proves the one
+ * the user picks.
+ */
+
+const proveReceipt = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const receipts = contractState?.receipts ?? [];
+  if (receipts.length === 0) {
+    logger.info('You have not exported any receipts');
+    return;
+  }
+  receipts.forEach((receipt, index) =>
+    logger.info(`${index + 1}. Invoice ${toHex(receipt.invoiceId)} #${receipt.sequence}: ${receipt.paidAmount} paid`),
+  );
+  const receipt = receipts[Number((await rli.question('Which receipt do you want to prove? ')).trim()) - 1];
+  if (receipt === undefined) {
+    logger.error('No such receipt');
+    return;
+  }
+  const txHash = await invoiceApi.proveReceipt(receipt);
+  logger.info(`Proved the payment in transaction ${txHash}`);
+};
+
+/* **********************************************************************
+ * subscriptionMenu: starts, cancels and lists the subscriptions of the
+ * contract.
+ */
+
+const SUBSCRIPTION_MENU_QUESTION = `
+You can do one of the following:
+  1. Start a subscription
+  2. Cancel a subscription
+  3. List the current cycle of each subscription
+  4. Go back
+Which would you like to do? `;
+
+const subscriptionMenu = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const choice = await rli.question(SUBSCRIPTION_MENU_QUESTION);
+  switch (choice) {
+    case '1':
+      await issueInvoice(invoiceApi, rli, logger, 'recurring');
+      break;
+    case '2':
+      await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.cancelSubscription(invoiceId));
+      break;
+    case '3': {
+      const invoices = Array.from(contractState?.invoices.values() ?? []);
+      if (!invoices.some(({ subscription }) => subscription !== undefined)) {
+        logger.info('There are no subscriptions');
+      }
+      for (const { id, subscription, state, dueAt } of invoices) {
+        if (subscription !== undefined) {
+          logger.info(
+            `Subscription ${id}: cycle ${subscription.cycle} of ${subscription.count} every ${subscription.periodDays} ` +
+              `days, state '${State[state]}', due ${dueAt.toISOString()}`,
+          );
+        }
+      }
+      break;
+    }
+    case '4':
+      break;
+    default:
+      logger.error(`Invalid choice: ${choice}`);
+  }
+};
+
+/* **********************************************************************
+ * escrowMenu: issues escrow invoices, funds them, approves and
+ * releases their milestones, and reclaims escrows left unreleased.
+ */
+
+const ESCROW_MENU_QUESTION = `
+You can do one of the following:
+  1. Issue an invoice paid into escrow
+  2. Fund the escrow of an invoice
+  3. Approve a delivered milestone
+  4. Release an approved milestone
+  5. Reclaim an escrow the issuer didn't release by the due date
+  6. List the milestones of each escrow
+  7. Go back
+Which would you like to do? `;
+
+const askMilestoneIndex = async (rli: Interface): Promise<number | null> => {
+  const answer = (await rli.question(`Which milestone (1 to ${MAX_MILESTONES})? `)).trim();
+  return /^\d+$/.test(answer) && Number(answer) >= 1 && Number(answer) <= MAX_MILESTONES ? Number(answer) - 1 : null;
+};
+
+const escrowMenu = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const choice = await rli.question(ESCROW_MENU_QUESTION);
+  switch (choice) {
+    case '1':
+      await issueInvoice(invoiceApi, rli, logger, 'escrow');
+      break;
+    case '2':
+      await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.fund(invoiceId));
+      break;
+    case '3':
+    case '4':
+      await withInvoiceId(rli, logger, async (invoiceId) => {
+        const index = await askMilestoneIndex(rli);
+        if (index === null) {
+          logger.error('No such milestone');
+          return;
+        }
+        await (choice === '3'
+          ? invoiceApi.approveMilestone(invoiceId, index)
+          : invoiceApi.releaseMilestone(invoiceId, index));
+      });
+      break;
+    case '5':
+      await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.reclaimEscrow(invoiceId));
+      break;
+    case '6': {
+      const invoices = Array.from(contractState?.invoices.values() ?? []);
+      if (!invoices.some(({ milestones }) => milestones !== undefined)) {
+        logger.info('There are no escrows');
+      }
+      for (const { id, milestones, state, tokenType } of invoices) {
+        if (milestones !== undefined) {
+          logger.info(`Escrow ${id}, state '${State[state]}':`);
+          for (const { index, title, amount, approved, released } of milestones) {
+            const status = released ? 'released' : approved ? 'approved' : 'pending';
+            logger.info(`  ${index + 1}. ${title ?? 'untitled'}: ${amount} ${tokenLabel(tokenType)}, ${status}`);
+          }
+        }
+      }
+      break;
+    }
+    case '7':
+      break;
+    default:
+      logger.error(`Invalid choice: ${choice}`);
+  }
+};
+
+/* **********************************************************************
+ * quoteMenu: sends quotes, accepts them, and issues accepted quotes as
+ * invoices.
+ */
+
+const QUOTE_MENU_QUESTION = `
+You can do one of the following:
+  1. Send a quote
+  2. Accept a quote you received
+  3. Issue an accepted quote as an invoice
+  4. List the open quotes
+  5. Go back
+Which would you like to do? `;
+
+const quoteMenu = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const choice = await rli.question(QUOTE_MENU_QUESTION);
+  switch (choice) {
+    case '1':
+      await issueInvoice(invoiceApi, rli, logger, 'quote');
+      break;
+    case '2':
+      await withInvoiceId(rli, logger, async (invoiceId) => {
+        await invoiceApi.acceptQuote(invoiceId);
+        logger.info('You have accepted the quote; you can pay it once the issuer has issued it as an invoice');
+      });
+      break;
+    case '3':
+      await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.issueQuotedInvoice(invoiceId));
+      break;
+    case '4': {
+      const quotes = Array.from(contractState?.invoices.values() ?? []).filter(
+        ({ state }) => state === State.QUOTED || state === State.ACCEPTED,
+      );
+      if (quotes.length === 0) {
+        logger.info('There are no open quotes');
+      }
+      for (const { id, state, amount, tokenType, canPay } of quotes) {
+        logger.info(
+          `Quote ${id}: ${amount} ${tokenLabel(tokenType)}, state '${State[state]}', ` +
+            `buyer is '${canPay ? 'you' : 'not you'}'`,
+        );
+      }
+      break;
+    }
+    case '5':
+      break;
+    default:
+      logger.error(`Invalid choice: ${choice}`);
+  }
+};
+
+/* **********************************************************************
+ * approvalMenu: requires approvers to sign off on an invoice before it
+ * can be paid, and lets approvers join the set and approve.
+ */
+
+const APPROVAL_MENU_QUESTION = `
+You can do one of the following:
+  1. Require approvals before an invoice can be paid
+  2. Create an approver commitment for an invoice
+  3. Join the approver set of an invoice
+  4. Approve an invoice
+  5. List the invoices awaiting approval
+  6. Go back
+Which would you like to do? `;
+
+const approvalMenu = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const choice = await rli.question(APPROVAL_MENU_QUESTION);
+  switch (choice) {
+    case '1':
+      await withInvoiceId(rli, logger, async (invoiceId) => {
+        const approverCommitments = await askCommitments(
+          rli,
+          'What are the approver commitments named by the buyer (in hex, comma separated)? ',
+        );
+        if (approverCommitments === null) {
+          logger.error('Each approver commitment must be 32 bytes of hex');
+          return;
+        }
+        const threshold = Number(await rli.question('How many of them must approve? '));
+        await invoiceApi.requireApprovals(invoiceId, approverCommitments, threshold);
+      });
+      break;
+    case '2':
+      await withInvoiceId(rli, logger, async (invoiceId) => {
+        const commitment = await invoiceApi.createApproverCommitment(invoiceId);
+        logger.info(`Send this approver commitment to the buyer: ${toHex(commitment)}`);
+      });
+      break;
+    case '3':
+      await withInvoiceId(rli, logger, async (invoiceId) => {
+        const approverCommitments = await askCommitments(
+          rli,
+          'What are the approver commitments named by the issuer (in hex, comma separated)? ',
+        );
+        if (approverCommitments === null) {
+          logger.error('Each approver commitment must be 32 bytes of hex');
+          return;
+        }
+        await invoiceApi.joinApproverSet(invoiceId, approverCommitments);
+        logger.info('You can now approve this invoice');
+      });
+      break;
+    case '4':
+      await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.approve(invoiceId));
+      break;
+    case '5': {
+      const awaiting = Array.from(contractState?.invoices.values() ?? []).filter(
+        ({ threshold, approvals }) => approvals < threshold,
+      );
+      if (awaiting.length === 0) {
+        logger.info('There are no invoices awaiting approval');
+      }
+      for (const { id, approvals, threshold, canApprove } of awaiting) {
+        logger.info(
+          `Invoice ${id}: approved by ${approvals} of ${threshold}, ` +
+            `approver is '${canApprove ? 'you' : 'not you'}'`,
+        );
+      }
+      break;
+    }
+    case '6':
+      break;
+    default:
+      logger.error(`Invalid choice: ${choice}`);
+  }
+};
+
+/* **********************************************************************
+ * teamMenu: shows the member commitment to hand to an admin, and lets
+ * admins grant and revoke the roles of the issuer's team.
+ */
+
+const TEAM_MENU_QUESTION = `
+You can do one of the following:
+  1. Show your member commitment
+  2. Grant a role to a team member
+  3. Revoke a role from a team member
+  4. List the team
+  5. Go back
+Which would you like to do? `;
+
+const teamRoleNames: Readonly<Record<string, Role>> = {
+  admin: Role.ADMIN,
+  issuer: Role.ISSUER,
+  canceller: Role.CANCELLER,
+};
+
+const askMember = async (rli: Interface, logger: Logger, action: (member: Uint8Array, role: Role) => Promise<void>) => {
+  const member = (await rli.question('What is the member commitment (in hex)? ')).trim();
+  if (!isHex(member, 32)) {
+    logger.error('The member commitment must be 32 bytes of hex');
+    return;
+  }
+  const role = teamRoleNames[(await rli.question('Which role (admin, issuer or canceller)? ')).trim().toLowerCase()];
+  if (role === undefined) {
+    logger.error('The role must be admin, issuer or canceller');
+    return;
+  }
+  await action(fromHex(member), role);
+};
+
+const teamMenu = async (
+  invoiceApi: InvoiceAPI,
+  contractState: InvoiceContractDerivedState | undefined,
+  rli: Interface,
+  logger: Logger,
+): Promise<void> => {
+  const choice = await rli.question(TEAM_MENU_QUESTION);
+  switch (choice) {
+    case '1': {
+      const commitment = await invoiceApi.getMemberCommitment();
+      logger.info(`Send this member commitment to an admin: ${toHex(commitment)}`);
+      break;
+    }
+    case '2':
+      await askMember(rli, logger, (member, role) => invoiceApi.addMember(member, role));
+      break;
+    case '3':
+      await askMember(rli, logger, (member, role) => invoiceApi.removeMember(member, role));
+      break;
+    case '4':
+      for (const { key, admin, issuer, canceller, isSelf } of contractState?.team ?? []) {
+        const roles = Object.entries({ admin, issuer, canceller })
+          .filter(([, held]) => held)
+          .map(([role]) => role);
+        logger.info(`Member ${key}${isSelf ? ' (you)' : ''}: ${roles.join(', ')}`);
+      }
+      break;
+    case '5':
+      break;
+    default:
+      logger.error(`Invalid choice: ${choice}`);
+  }
+};
+
+/* **********************************************************************
+ * mainLoop: the main interactive menu of the invoice CLI.
  * Before starting the loop, the user is prompted to deploy a new
  * contract or join an existing one.
  */
 
 const MAIN_LOOP_QUESTION = `
 You can do one of the following:
-  1. Post a message
-  2. Take down your message
-  3. Display the current ledger state (known by everyone)
-  4. Display the current private state (known only to this DApp instance)
-  5. Display the current derived state (known only to this DApp instance)
-  6. Exit
+  1. Issue an invoice
+  2. Pay an invoice
+  3. Cancel an invoice
+  4. Mark an invoice overdue
+  5. Remove a paid, cancelled or refunded invoice
+  6. Create a payer commitment for an invoice you expect to receive
+  7. Join the payer set of an invoice issued to several payers
+  8. Verify an invoice document you received
+  9. Export a receipt for an invoice you paid
+  10. Prove a payment with an exported receipt
+  11. Manage subscriptions
+  12. Manage escrows
+  13. Manage quotes
+  14. Assign an invoice to a new payee
+  15. Acknowledge a revised invoice
+  16. Manage approvals
+  17. Manage the team
+  18. Pause or resume the contract
+  19. Display the current ledger state (known by everyone)
+  20. Display the current private state (known only to this DApp instance)
+  21. Display the current derived state (known only to this DApp instance)
+  22. Exit
 Which would you like to do? `;
 
-const mainLoop = async (providers: BBoardProviders, rli: Interface, logger: Logger): Promise<void> => {
-  const bboardApi = await deployOrJoin(providers, rli, logger);
-  if (bboardApi === null) {
+const mainLoop = async (providers: InvoiceProviders, rli: Interface, logger: Logger): Promise<void> => {
+  const invoiceApi = await deployOrJoin(providers, rli, logger);
+  if (invoiceApi === null) {
     return;
   }
-  let currentState: BBoardDerivedState | undefined;
+  let currentState: InvoiceContractDerivedState | undefined;
   const stateObserver = {
-    next: (state: BBoardDerivedState) => (currentState = state),
+    next: (state: InvoiceContractDerivedState) => (currentState = state),
   };
-  const subscription = bboardApi.state$.subscribe(stateObserver);
+  const subscription = invoiceApi.state$.subscribe(stateObserver);
+  const cyclesSubscription = invoiceApi.cycles$.subscribe((cycle) =>
+    logger.info(
+      `Subscription ${cycle.invoiceId}: cycle ${cycle.cycle} of ${cycle.count} is due ${cycle.dueAt.toISOString()}`,
+    ),
+  );
   try {
     while (true) {
       const choice = await rli.question(MAIN_LOOP_QUESTION);
       switch (choice) {
-        case '1': {
-          const message = await rli.question(`What message do you want to post? `);
-          await bboardApi.post(message);
+        case '1':
+          await issueInvoice(invoiceApi, rli, logger);
           break;
-        }
         case '2':
-          await bboardApi.takeDown();
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const amount = (
+              await rli.question('How much do you want to pay (empty for the outstanding amount)? ')
+            ).trim();
+            if (amount !== '' && !/^\d+$/.test(amount)) {
+              logger.error(`Invalid amount: ${amount}`);
+              return;
+            }
+            const charge = await invoiceApi.payInvoice(invoiceId, amount === '' ? undefined : BigInt(amount));
+            logger.info(`Paid ${charge}, after any early-payment discount or late fee`);
+          });
           break;
         case '3':
-          await displayLedgerState(providers, bboardApi.deployedContract, logger);
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const reason = await rli.question('Why are you cancelling the invoice? ');
+            await invoiceApi.cancelInvoice(invoiceId, reason);
+          });
           break;
         case '4':
-          await displayPrivateState(providers, logger);
+          await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.markOverdue(invoiceId));
           break;
         case '5':
+          await withInvoiceId(rli, logger, (invoiceId) => invoiceApi.resetInvoice(invoiceId));
+          break;
+        case '6': {
+          const invoiceId = utils.randomBytes(32);
+          const commitment = await invoiceApi.createPayerCommitment(invoiceId);
+          const encryptionKey = await invoiceApi.getEncryptionPublicKey();
+          logger.info(`Send this invoice id to the issuer: ${toHex(invoiceId)}`);
+          logger.info(`Send this payer commitment to the issuer: ${toHex(commitment)}`);
+          logger.info(`Send this encryption key to the issuer: ${toHex(encryptionKey)}`);
+          break;
+        }
+        case '7':
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const payerCommitments = await askCommitments(
+              rli,
+              'What are the payer commitments named by the issuer (in hex, comma separated)? ',
+            );
+            if (payerCommitments === null) {
+              logger.error('Each payer commitment must be 32 bytes of hex');
+              return;
+            }
+            await invoiceApi.joinPayerSet(invoiceId, payerCommitments);
+            logger.info('You can now pay this invoice');
+          });
+          break;
+        case '8':
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const document = await rli.question('Paste the invoice document: ');
+            if (await invoiceApi.verifyInvoiceDocument(invoiceId, document.trim())) {
+              logger.info('The document matches the invoice and has been stored');
+            } else {
+              logger.error('The document does not match the hash recorded for this invoice');
+            }
+          });
+          break;
+        case '9':
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const receipt = await invoiceApi.exportReceipt(invoiceId);
+            logger.info(`Exported a receipt for ${receipt.paidAmount} paid towards invoice #${receipt.sequence}`);
+          });
+          break;
+        case '10':
+          await proveReceipt(invoiceApi, currentState, rli, logger);
+          break;
+        case '11':
+          await subscriptionMenu(invoiceApi, currentState, rli, logger);
+          break;
+        case '12':
+          await escrowMenu(invoiceApi, currentState, rli, logger);
+          break;
+        case '13':
+          await quoteMenu(invoiceApi, currentState, rli, logger);
+          break;
+        case '14':
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            const payee = (await rli.question('What is the coin public key of the new payee (in hex)? ')).trim();
+            if (!isHex(payee, 32)) {
+              logger.error('The coin public key must be 32 bytes of hex');
+              return;
+            }
+            await invoiceApi.assignReceivable(invoiceId, payee);
+            logger.info('Payments towards this invoice now go to the new payee');
+          });
+          break;
+        case '15':
+          await withInvoiceId(rli, logger, async (invoiceId) => {
+            await invoiceApi.acknowledgeRevision(invoiceId);
+            logger.info('You can now pay the revised invoice');
+          });
+          break;
+        case '16':
+          await approvalMenu(invoiceApi, currentState, rli, logger);
+          break;
+        case '17':
+          await teamMenu(invoiceApi, currentState, rli, logger);
+          break;
+        case '18':
+          if (currentState?.paused) {
+            await invoiceApi.unpause();
+            logger.info('The contract has been resumed');
+          } else {
+            await invoiceApi.pause();
+            logger.info('The contract is paused; no invoice can be issued or paid until it is resumed');
+          }
+          break;
+        case '19':
+          await displayLedgerState(providers, invoiceApi.deployedContract, logger);
+          break;
+        case '20':
+          await displayPrivateState(providers, logger);
+          break;
+        case '21':
           displayDerivedState(currentState, logger);
           break;
-        case '6':
+        case '22':
           logger.info('Exiting...');
           return;
         default:
@@ -235,6 +1000,7 @@ const mainLoop = async (providers: BBoardProviders, rli: Interface, logger: Logg
     // While we allow errors to bubble up to the 'run' function, we will always need to dispose of the state
     // subscription when we exit.
     subscription.unsubscribe();
+    cyclesSubscription.unsubscribe();
   }
 };
 
@@ -388,7 +1154,7 @@ const mapContainerPort = (env: StartedDockerComposeEnvironment, url: string, con
 };
 
 /* **********************************************************************
- * run: the main entry point that starts the whole bulletin board CLI.
+ * run: the main entry point that starts the whole invoice CLI.
  *
  * If called with a Docker environment argument, the application
  * will wait for Docker to be ready before doing anything else.
@@ -416,7 +1182,7 @@ export const run = async (config: Config, logger: Logger, dockerEnv?: DockerComp
           privateStateStoreName: config.privateStateStoreName,
         }),
         publicDataProvider: indexerPublicDataProvider(config.indexer, config.indexerWS),
-        zkConfigProvider: new NodeZkConfigProvider<'post' | 'takeDown'>(config.zkConfigPath),
+        zkConfigProvider: new NodeZkConfigProvider<InvoiceCircuitKeys>(config.zkConfigPath),
         proofProvider: httpClientProofProvider(config.proofServer),
         walletProvider: walletAndMidnightProvider,
         midnightProvider: walletAndMidnightProvider,
@@ -0,0 +1,1463 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { useEffect, useState } from 'react';
+import {
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Chip,
+  Divider,
+  InputAdornment,
+  LinearProgress,
+  Alert,
+  Fade,
+  Paper,
+  Stack,
+  Tooltip,
+} from '@mui/material';
+import PaymentIcon from '@mui/icons-material/Payment';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CalendarTodayIcon from '@mui/icons-material/CalendarToday';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import CloseIcon from '@mui/icons-material/Close';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import LockIcon from '@mui/icons-material/Lock';
+import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
+import VerifiedIcon from '@mui/icons-material/Verified';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import FlagIcon from '@mui/icons-material/Flag';
+import MoneyOffIcon from '@mui/icons-material/MoneyOff';
+import RequestQuoteIcon from '@mui/icons-material/RequestQuote';
+import HandshakeIcon from '@mui/icons-material/Handshake';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import HistoryIcon from '@mui/icons-material/History';
+import EditNoteIcon from '@mui/icons-material/EditNote';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import { type InvoiceDerivedState, type InvoiceData, type RevisionDerivedState, utils } from '../../../api/src/index';
+import { isHex } from '@midnight-ntwrk/midnight-js-utils';
+import { PAYER_SET_DEPTH, State } from '../../../contract/src/index';
+import { splitCommitments, tokenLabel } from './InvoiceBoard.utils';
+
+/** A version of an invoice, as far as a revision can change it. */
+type InvoiceVersion = Pick<RevisionDerivedState, 'amount' | 'invoiceData'>;
+
+/** Describes what changed from one version of an invoice to the next, one line per change. */
+const revisionChanges = (before: InvoiceVersion, after: InvoiceVersion, currency: string): string[] => {
+  const changes: string[] = [];
+  if (before.amount !== after.amount) {
+    changes.push(`Amount ${before.amount.toString()} → ${after.amount.toString()} ${currency}`);
+  }
+  if (!before.invoiceData || !after.invoiceData) {
+    changes.push('Document changed; only documents held locally can be compared');
+    return changes;
+  }
+  if (before.invoiceData.title !== after.invoiceData.title) {
+    changes.push(`Title "${before.invoiceData.title}" → "${after.invoiceData.title}"`);
+  }
+  if (before.invoiceData.description !== after.invoiceData.description) {
+    changes.push(`Description "${before.invoiceData.description}" → "${after.invoiceData.description}"`);
+  }
+  return changes;
+};
+
+/** Formats a duration in milliseconds as a coarse countdown, e.g. `3d 4h 12m`. */
+const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  return days > 0 ? `${days}d ${hours}h ${minutes % 60}m` : `${hours}h ${minutes % 60}m`;
+};
+
+const getStateColor = (state: State) => {
+  switch (state) {
+    case State.EMPTY:
+      return 'default';
+    case State.ISSUED:
+      return 'warning';
+    case State.PAID:
+      return 'success';
+    case State.PARTIALLY_PAID:
+      return 'info';
+    case State.OVERDUE:
+      return 'error';
+    case State.CANCELLED:
+      return 'default';
+    case State.DISPUTED:
+      return 'error';
+    case State.REFUNDED:
+      return 'secondary';
+    case State.ESCROWED:
+      return 'info';
+    case State.QUOTED:
+      return 'secondary';
+    case State.ACCEPTED:
+      return 'info';
+    default:
+      return 'default';
+  }
+};
+
+const getStateLabel = (state: State) => {
+  switch (state) {
+    case State.EMPTY:
+      return 'No Invoice';
+    case State.ISSUED:
+      return 'Issued';
+    case State.PAID:
+      return 'Paid';
+    case State.PARTIALLY_PAID:
+      return 'Partially Paid';
+    case State.OVERDUE:
+      return 'Overdue';
+    case State.CANCELLED:
+      return 'Cancelled';
+    case State.DISPUTED:
+      return 'Disputed';
+    case State.REFUNDED:
+      return 'Refunded';
+    case State.ESCROWED:
+      return 'Escrowed';
+    case State.QUOTED:
+      return 'Quoted';
+    case State.ACCEPTED:
+      return 'Accepted';
+    default:
+      return 'Unknown';
+  }
+};
+
+/**
+ * The props required by the {@link InvoiceItem} component.
+ *
+ * @internal
+ */
+export interface InvoiceItemProps {
+  /** The derived state of the invoice to render. */
+  invoice: InvoiceDerivedState;
+  /** A callback that will be called to pay the invoice, or the given portion of it. */
+  onPay: (portion?: bigint) => void;
+  /** A callback that will be called to accept the quote, agreeing to its amount and terms. */
+  onAcceptQuote: () => void;
+  /** A callback that will be called to issue the accepted quote as an invoice. */
+  onIssueQuotedInvoice: () => void;
+  /** A callback that will be called to fund the escrow of the invoice with its full amount. */
+  onFund: () => void;
+  /** A callback that will be called to approve the milestone at the given index as delivered. */
+  onApproveMilestone: (index: number) => void;
+  /** A callback that will be called to release the approved milestone at the given index to the issuer. */
+  onReleaseMilestone: (index: number) => void;
+  /** A callback that will be called to return the funds still held in escrow to the buyer. */
+  onReclaimEscrow: () => void;
+  /** A callback that will be called to mark the invoice overdue. */
+  onMarkOverdue: () => void;
+  /** A callback that will be called to cancel the invoice for the given reason. */
+  onCancel: (reason: string) => void;
+  /** A callback that will be called to credit the given amount of the invoice for the given reason. */
+  onIssueCreditNote: (amount: bigint, reason: string) => void;
+  /** A callback that will be called to assign the receivable of the invoice to the given hex-encoded coin public key. */
+  onAssignReceivable: (payee: string) => void;
+  /** A callback that will be called to revise the amount and document of the invoice. */
+  onRevise: (amount: bigint, invoiceData: InvoiceData) => void;
+  /** A callback that will be called to acknowledge the latest revision of the invoice. */
+  onAcknowledgeRevision: () => void;
+  /** A callback that will be called to dispute the invoice for the given reason. */
+  onOpenDispute: (reason: string) => void;
+  /** A callback that will be called to withdraw a dispute. */
+  onResolveDispute: () => void;
+  /** A callback that will be called to refund the disputed invoice. */
+  onRefund: () => void;
+  /** A callback that will be called to check a received invoice document against the ledger. */
+  onVerifyDocument: (document: string) => void;
+  /** A callback that will be called to join the set of payers the invoice was issued to. */
+  onJoinPayerSet: (payerCommitments: string) => void;
+  /** A callback that will be called to require the given number of the given approvers to sign off before payment. */
+  onRequireApprovals: (approverCommitments: string, threshold: number) => void;
+  /** A callback that will be called to join the set of approvers of the invoice. */
+  onJoinApproverSet: (approverCommitments: string) => void;
+  /** A callback that will be called to approve the invoice for payment. */
+  onApprove: () => void;
+  /** A callback that will be called to create an approver commitment, resolving to its hex encoding. */
+  onCreateApproverCommitment: () => Promise<string | undefined>;
+  /** A callback that will be called to export a receipt for the latest payment. */
+  onExportReceipt: () => void;
+  /** A callback that will be called to prove the exported receipt, resolving to the hash of the proof transaction. */
+  onProveReceipt: () => Promise<string | undefined>;
+  /** A callback that will be called to remove the invoice once it is paid, cancelled or refunded. */
+  onReset: () => void;
+}
+
+/**
+ * Renders a single invoice held by the contract, along with the actions available on it.
+ *
+ * @internal
+ */
+export const InvoiceItem: React.FC<Readonly<InvoiceItemProps>> = ({
+  invoice,
+  onPay,
+  onAcceptQuote,
+  onIssueQuotedInvoice,
+  onFund,
+  onApproveMilestone,
+  onReleaseMilestone,
+  onReclaimEscrow,
+  onMarkOverdue,
+  onCancel,
+  onIssueCreditNote,
+  onAssignReceivable,
+  onRevise,
+  onAcknowledgeRevision,
+  onOpenDispute,
+  onResolveDispute,
+  onRefund,
+  onVerifyDocument,
+  onJoinPayerSet,
+  onRequireApprovals,
+  onJoinApproverSet,
+  onApprove,
+  onCreateApproverCommitment,
+  onExportReceipt,
+  onProveReceipt,
+  onReset,
+}) => {
+  // The installment to pay next; left empty to pay the whole outstanding amount
+  const [portion, setPortion] = useState('');
+  const [portionError, setPortionError] = useState('');
+
+  // The issuer's reason for cancelling, shown once they choose to cancel
+  const [cancelReason, setCancelReason] = useState<string>();
+
+  // The amount and reason of a credit note, shown once the issuer chooses to credit the invoice
+  const [creditNote, setCreditNote] = useState<{ amount: string; reason: string }>();
+  const [creditNoteError, setCreditNoteError] = useState('');
+
+  // The coin public key to assign the receivable to, shown once the issuer chooses to assign it
+  const [newPayee, setNewPayee] = useState<string>();
+  const [newPayeeError, setNewPayeeError] = useState('');
+
+  // The revised amount, title and description, shown once the issuer chooses to revise the invoice
+  const [revision, setRevision] = useState<{ amount: string; title: string; description: string }>();
+  const [revisionError, setRevisionError] = useState('');
+
+  // The buyer's reason for disputing, shown once they choose to dispute
+  const [disputeReason, setDisputeReason] = useState<string>();
+
+  // An invoice document received off-chain, pasted in by the user for verification
+  const [document, setDocument] = useState('');
+
+  // The payer commitments of the set the invoice was issued to, pasted in by a member to join it
+  const [payerCommitments, setPayerCommitments] = useState('');
+
+  // The approver commitments and threshold, shown once the issuer chooses to require approvals
+  const [approvalPolicy, setApprovalPolicy] = useState<{ commitments: string; threshold: string }>();
+  const [approvalPolicyError, setApprovalPolicyError] = useState('');
+
+  // The approver commitments of the invoice, pasted in by an approver to join the set
+  const [approverCommitments, setApproverCommitments] = useState('');
+
+  // The current user's approver commitment, once created, to hand over to the buyer
+  const [approverCommitment, setApproverCommitment] = useState<string>();
+
+  // The hash of the transaction proving the receipt, once the buyer has proven it
+  const [receiptProof, setReceiptProof] = useState<string>();
+
+  // Ticks the due date countdown over
+  const [now, setNow] = useState(Date.now);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A document encrypted to somebody else can't be shown at all
+  const invoiceData = invoice.invoiceData === 'encrypted' ? undefined : invoice.invoiceData;
+  // The token is recorded on the ledger, so it is known even without the document
+  const currency = tokenLabel(invoice.tokenType);
+  const payable =
+    invoice.state === State.ISSUED || invoice.state === State.PARTIALLY_PAID || invoice.state === State.OVERDUE;
+  const quoted = invoice.state === State.QUOTED || invoice.state === State.ACCEPTED;
+  // The discount (negative) or late fee (positive) applying to the outstanding amount right now
+  const termsAdjustment = invoice.amountDueNow - invoice.outstanding;
+  const untilDue = invoice.dueAt.getTime() - now;
+  const disputable =
+    invoice.canPay &&
+    invoice.paidAmount > 0n &&
+    (invoice.state === State.PAID || invoice.state === State.PARTIALLY_PAID || invoice.state === State.OVERDUE);
+  const progress = invoice.amount > 0n ? Number((invoice.paidAmount * 100n) / invoice.amount) : 0;
+
+  const creditable = invoice.isIssuer && !invoice.milestones && (payable || invoice.state === State.PAID);
+
+  const assignable = invoice.isIssuer && payable && !invoice.split;
+
+  // The issuer needs the current document to revise it
+  const revisable =
+    invoice.isIssuer && payable && !invoice.milestones && !invoice.subscription && invoiceData !== undefined;
+
+  const onSubmitRevision = () => {
+    if (!revision || !invoiceData) {
+      return;
+    }
+    const amount = revision.amount.trim();
+    if (!/^\d+$/.test(amount) || BigInt(amount) <= invoice.paidAmount) {
+      setRevisionError(`Amount must be a whole number greater than the ${invoice.paidAmount.toString()} paid so far`);
+      return;
+    }
+    setRevisionError('');
+    setRevision(undefined);
+    onRevise(BigInt(amount), {
+      ...invoiceData,
+      title: revision.title.trim(),
+      description: revision.description.trim(),
+    });
+  };
+
+  // Approvals can be required until anything has been paid; escrows are approved milestone by milestone instead
+  const approvalsOpen =
+    !invoice.milestones &&
+    invoice.threshold === 0 &&
+    invoice.paidAmount === 0n &&
+    (invoice.state === State.ISSUED || quoted);
+
+  const onSubmitApprovalPolicy = () => {
+    if (!approvalPolicy) {
+      return;
+    }
+    const commitments = splitCommitments(approvalPolicy.commitments);
+    if (!commitments.every((commitment) => isHex(commitment, 32))) {
+      setApprovalPolicyError('Each approver commitment must be 32 bytes of hex');
+      return;
+    }
+    if (commitments.length > 2 ** PAYER_SET_DEPTH) {
+      setApprovalPolicyError(`At most ${2 ** PAYER_SET_DEPTH} approvers can be named`);
+      return;
+    }
+    const threshold = Number(approvalPolicy.threshold.trim());
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > commitments.length) {
+      setApprovalPolicyError(`The number of approvals must be between 1 and ${commitments.length}`);
+      return;
+    }
+    setApprovalPolicyError('');
+    setApprovalPolicy(undefined);
+    onRequireApprovals(approvalPolicy.commitments, threshold);
+  };
+
+  const onAssign = () => {
+    if (newPayee === undefined) {
+      return;
+    }
+    const payee = newPayee.trim().toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(payee)) {
+      setNewPayeeError('Enter a 32-byte hex-encoded coin public key');
+      return;
+    }
+    if (payee === invoice.payee) {
+      setNewPayeeError('The invoice is already payable to this key');
+      return;
+    }
+    setNewPayeeError('');
+    setNewPayee(undefined);
+    onAssignReceivable(payee);
+  };
+
+  const onCreditPortion = () => {
+    if (!creditNote) {
+      return;
+    }
+    const amount = creditNote.amount.trim();
+    if (!/^\d+$/.test(amount) || BigInt(amount) <= 0n) {
+      setCreditNoteError('Amount must be a whole number greater than 0');
+      return;
+    }
+    // Only the outstanding amount can be credited off an unpaid invoice, and a paid one up to what was paid for it
+    const limit = invoice.state === State.PAID ? invoice.paidAmount - invoice.credited : invoice.outstanding;
+    if (BigInt(amount) > limit) {
+      setCreditNoteError(`Amount must not exceed ${limit.toString()}`);
+      return;
+    }
+    if (invoice.state !== State.PAID && invoice.paidAmount === 0n && BigInt(amount) === invoice.amount) {
+      setCreditNoteError('Cancel the invoice instead of crediting all of it');
+      return;
+    }
+    setCreditNoteError('');
+    setCreditNote(undefined);
+    onIssueCreditNote(BigInt(amount), creditNote.reason.trim());
+  };
+
+  const onPayPortion = () => {
+    if (!portion) {
+      onPay();
+      return;
+    }
+    if (!/^\d+$/.test(portion) || BigInt(portion) <= 0n) {
+      setPortionError('Amount must be a whole number greater than 0');
+      return;
+    }
+    if (BigInt(portion) > invoice.outstanding) {
+      setPortionError(`Amount must not exceed the outstanding ${invoice.outstanding.toString()}`);
+      return;
+    }
+    setPortionError('');
+    setPortion('');
+    onPay(BigInt(portion));
+  };
+
+  return (
+    <Fade in timeout={500}>
+      <Paper
+        elevation={3}
+        sx={{
+          p: 3,
+          bgcolor: 'background.paper',
+          borderRadius: 3,
+          border: '2px solid',
+          borderColor:
+            invoice.state === State.PAID ? 'success.main' : invoice.isOverdue ? 'error.main' : 'primary.main',
+        }}
+      >
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 2 }}>
+          <Box>
+            <Typography variant="h5" fontWeight={600} color="primary.main">
+              {invoiceData?.title ??
+                (invoice.invoiceData === 'encrypted' ? 'Encrypted invoice' : 'Invoice document not received')}
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+              {invoice.number} · #{invoice.sequence.toString()} · {invoice.id.slice(0, 16)}...
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1}>
+            {invoice.subscription && (
+              <Tooltip title={`Billed every ${invoice.subscription.periodDays} days`}>
+                <Chip
+                  label={`Cycle ${invoice.subscription.cycle} of ${invoice.subscription.count}`}
+                  variant="outlined"
+                />
+              </Tooltip>
+            )}
+            <Chip label={getStateLabel(invoice.state)} color={getStateColor(invoice.state)} />
+          </Stack>
+        </Box>
+
+        {invoiceData?.description && (
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 2, lineHeight: 1.7 }}>
+            {invoiceData.description}
+          </Typography>
+        )}
+
+        {invoice.invoiceData === 'encrypted' && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <LockIcon fontSize="small" color="action" />
+            <Typography variant="body2" color="text.secondary">
+              The invoice document is encrypted for the buyer. Only the buyer and the issuer can read its details.
+            </Typography>
+          </Box>
+        )}
+
+        {invoice.invoiceData === undefined && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <LockIcon fontSize="small" color="action" />
+              <Typography variant="body2" color="text.secondary">
+                Only the hash of the invoice document is on-chain. Paste the document you received from the issuer to
+                check it and view it.
+              </Typography>
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <TextField
+                label="Invoice document"
+                value={document}
+                onChange={(e) => setDocument(e.target.value)}
+                size="small"
+                fullWidth
+                multiline
+                maxRows={4}
+                sx={{ '& textarea': { fontFamily: 'monospace' } }}
+              />
+              <Button
+                variant="outlined"
+                disabled={!document.trim()}
+                onClick={() => {
+                  onVerifyDocument(document.trim());
+                  setDocument('');
+                }}
+                sx={{ textTransform: 'none' }}
+              >
+                Verify
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {invoice.isIssuer && invoiceData && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Tooltip title="Send this document to the buyer; only its hash is on-chain">
+              <Button
+                size="small"
+                startIcon={<ContentCopyIcon />}
+                onClick={() => void navigator.clipboard.writeText(utils.canonicalJson(invoiceData))}
+                sx={{ textTransform: 'none' }}
+              >
+                Copy document
+              </Button>
+            </Tooltip>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Box sx={{ textAlign: 'center', mb: 2 }}>
+          <Typography variant="overline" color="text.secondary" fontWeight={500}>
+            {invoice.state === State.PAID ? 'Payment Amount' : 'Amount Due'}
+          </Typography>
+          <Typography variant="h3" color="primary.main" fontWeight={700} sx={{ my: 1 }}>
+            {payable ? invoice.amountDueNow.toString() : invoice.amount.toString()}
+          </Typography>
+          <Chip label={currency} color="primary" size="medium" sx={{ fontWeight: 600 }} />
+          {payable && termsAdjustment !== 0n && (
+            <Typography
+              variant="body2"
+              color={termsAdjustment < 0n ? 'success.main' : 'error.main'}
+              display="block"
+              sx={{ mt: 1 }}
+            >
+              {termsAdjustment < 0n
+                ? `Includes a ${(invoice.terms?.discount ?? 0) / 100}% early-payment discount of ${-termsAdjustment} ${currency} off the outstanding ${invoice.outstanding}, if paid by ${invoice.terms?.discountUntil?.toLocaleString('en-US')}`
+                : `Includes a ${(invoice.terms?.lateFee ?? 0) / 100}% late fee of ${termsAdjustment} ${currency} on top of the outstanding ${invoice.outstanding}, as the due date has passed`}
+            </Typography>
+          )}
+          {payable && termsAdjustment === 0n && invoice.terms && invoice.terms.lateFee > 0 && (
+            <Typography variant="body2" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              A {invoice.terms.lateFee / 100}% late fee applies to payments after the due date
+            </Typography>
+          )}
+        </Box>
+
+        {invoiceData && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mb: 2 }}>
+            <CalendarTodayIcon fontSize="small" color="action" />
+            <Typography variant="body2" color="text.secondary">
+              Issued on{' '}
+              {new Date(invoiceData.issuedAt).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Typography>
+          </Box>
+        )}
+
+        {invoice.split && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <CallSplitIcon fontSize="small" />
+              <Typography variant="body2">Each payment is split between</Typography>
+            </Box>
+            {invoice.split.map(({ payee, share }) => (
+              <Box key={payee} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace' }} noWrap>
+                  {payee}
+                </Typography>
+                <Typography variant="body2" fontWeight={600}>
+                  {share / 100}%
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {invoice.assignments.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <SwapHorizIcon fontSize="small" />
+              <Typography variant="body2">Assigned by the issuer, now payable to</Typography>
+            </Box>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace' }} noWrap>
+              {invoice.payee}
+            </Typography>
+            {invoice.assignments.map(({ index, from }) => (
+              <Typography key={index} variant="caption" color="text.secondary" sx={{ display: 'block' }} noWrap>
+                #{index} assigned away from {from}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {invoice.adjustments.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <MoneyOffIcon fontSize="small" />
+              <Typography variant="body2">
+                {invoice.state === State.PAID
+                  ? 'Credited after payment, to be settled with the buyer'
+                  : 'Credited off the amount due'}
+              </Typography>
+            </Box>
+            {invoice.adjustments.map(({ id, amount, reason }) => (
+              <Box key={id} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+                <Typography variant="body2" noWrap>
+                  {reason}
+                </Typography>
+                <Typography variant="body2" fontWeight={600} color="error.main" sx={{ flexShrink: 0 }}>
+                  {amount.toString()} {currency}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {invoice.milestones && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <FlagIcon fontSize="small" />
+              <Typography variant="body2">
+                {invoice.state === State.ESCROWED
+                  ? 'Funds are held in escrow until each milestone is approved and released'
+                  : 'Funds are released from escrow milestone by milestone'}
+              </Typography>
+            </Box>
+            {invoice.milestones.map((milestone) => (
+              <Box
+                key={milestone.index}
+                sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, py: 0.5 }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 0 }}>
+                  <CheckCircleIcon fontSize="small" color={milestone.released ? 'success' : 'disabled'} />
+                  <Typography variant="body2" noWrap>
+                    {milestone.title ?? `Milestone ${milestone.index + 1}`}
+                  </Typography>
+                </Box>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
+                  <Typography variant="body2" fontWeight={600}>
+                    {milestone.amount.toString()} {currency}
+                  </Typography>
+                  {milestone.released ? (
+                    <Chip label="Released" color="success" size="small" />
+                  ) : milestone.approved ? (
+                    invoice.isIssuer && invoice.state === State.ESCROWED ? (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => onReleaseMilestone(milestone.index)}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        Release
+                      </Button>
+                    ) : (
+                      <Chip label="Approved" color="info" size="small" />
+                    )
+                  ) : invoice.canPay && invoice.state === State.ESCROWED ? (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={() => onApproveMilestone(milestone.index)}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Approve
+                    </Button>
+                  ) : (
+                    <Chip label="Pending" size="small" />
+                  )}
+                </Box>
+              </Box>
+            ))}
+            {invoice.canPay && invoice.state === State.ESCROWED && invoice.dueAt.getTime() < Date.now() && (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mt: 1 }}>
+                <Typography variant="body2" color="text.secondary">
+                  The due date has passed with milestones still unreleased
+                </Typography>
+                <Button size="small" variant="outlined" onClick={onReclaimEscrow} sx={{ textTransform: 'none' }}>
+                  Reclaim Funds
+                </Button>
+              </Box>
+            )}
+          </Box>
+        )}
+
+        {invoice.acceptedDocHash && !quoted && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <HandshakeIcon fontSize="small" color="success" />
+            <Typography variant="body2" color="text.secondary">
+              Issued from a quote the buyer accepted on-chain
+            </Typography>
+          </Box>
+        )}
+
+        {quoted && (
+          <Alert severity="info" icon={<RequestQuoteIcon />} sx={{ mb: 2, borderRadius: 2 }}>
+            {invoice.state === State.QUOTED ? (
+              invoice.canPay ? (
+                <>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    {invoiceData
+                      ? 'Accepting records on-chain that you agree to the amount and terms of this quote. It can be paid once the issuer has issued it as an invoice.'
+                      : 'Verify the quote document before accepting it.'}
+                  </Typography>
+                  <Button
+                    variant="contained"
+                    startIcon={<HandshakeIcon />}
+                    disabled={!invoiceData}
+                    onClick={onAcceptQuote}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Accept Quote
+                  </Button>
+                </>
+              ) : (
+                <Typography variant="body2">Waiting for the buyer to accept the quote.</Typography>
+              )
+            ) : invoice.isIssuer ? (
+              <>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  The buyer has accepted the quote. Issue it as an invoice to let them pay.
+                </Typography>
+                <Button
+                  variant="contained"
+                  startIcon={<ReceiptIcon />}
+                  onClick={onIssueQuotedInvoice}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Issue Invoice
+                </Button>
+              </>
+            ) : (
+              <Typography variant="body2">
+                The quote has been accepted. It can be paid once the issuer has issued it as an invoice.
+              </Typography>
+            )}
+          </Alert>
+        )}
+
+        {invoice.revisions.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <HistoryIcon fontSize="small" />
+              <Typography variant="body2">
+                Revised {invoice.revision === 1 ? 'once' : `${invoice.revision} times`} by the issuer
+              </Typography>
+            </Box>
+            {invoice.revisions.map((before, index) => (
+              <Box key={before.docHash} sx={{ mb: 0.5 }}>
+                <Typography variant="body2" fontWeight={600}>
+                  v{before.revision} → v{before.revision + 1}
+                </Typography>
+                {revisionChanges(
+                  before,
+                  invoice.revisions[index + 1] ?? { amount: invoice.amount, invoiceData },
+                  currency,
+                ).map((change) => (
+                  <Typography key={change} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {change}
+                  </Typography>
+                ))}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {!invoice.acknowledged && payable && (
+          <Alert severity="warning" icon={<HistoryIcon />} sx={{ mb: 2, borderRadius: 2 }}>
+            {invoice.canPay ? (
+              <>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  {invoiceData
+                    ? 'The issuer has revised this invoice. Acknowledge the revised document to pay it.'
+                    : 'The issuer has revised this invoice. Verify the revised document before acknowledging it.'}
+                </Typography>
+                <Button
+                  variant="contained"
+                  startIcon={<VerifiedIcon />}
+                  disabled={!invoiceData}
+                  onClick={onAcknowledgeRevision}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Acknowledge Revision
+                </Button>
+              </>
+            ) : (
+              <Typography variant="body2">
+                Waiting for the buyer to acknowledge the revision before they can pay.
+              </Typography>
+            )}
+          </Alert>
+        )}
+
+        {invoice.threshold > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, color: 'text.secondary' }}>
+              <FactCheckIcon fontSize="small" />
+              <Typography variant="body2">
+                Approved by {invoice.approvals} of the {invoice.threshold} approvers required before payment
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              color={invoice.approvals >= invoice.threshold ? 'success' : 'primary'}
+              value={Math.min(100, (invoice.approvals * 100) / invoice.threshold)}
+              sx={{ height: 6, borderRadius: 3, mb: 1 }}
+            />
+            {invoice.canApprove ? (
+              <Button
+                variant="contained"
+                startIcon={<FactCheckIcon />}
+                disabled={!payable}
+                onClick={onApprove}
+                sx={{ textTransform: 'none' }}
+              >
+                Approve Payment
+              </Button>
+            ) : invoice.isApprover ? (
+              <Typography variant="caption" color="text.secondary">
+                {invoice.approvals >= invoice.threshold
+                  ? 'The invoice has all the approvals it needs'
+                  : 'You have approved this invoice'}
+              </Typography>
+            ) : (
+              !invoice.isIssuer &&
+              invoice.approvals < invoice.threshold && (
+                <>
+                  <Typography variant="body2" color="text.secondary">
+                    If you are one of the approvers, paste the approver commitments the issuer named to join the set.
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 1 }}>
+                    <TextField
+                      label="Approver commitments"
+                      value={approverCommitments}
+                      onChange={(e) => setApproverCommitments(e.target.value)}
+                      size="small"
+                      fullWidth
+                      multiline
+                      maxRows={4}
+                      sx={{ '& textarea': { fontFamily: 'monospace' } }}
+                    />
+                    <Button
+                      variant="outlined"
+                      disabled={!approverCommitments.trim()}
+                      onClick={() => {
+                        onJoinApproverSet(approverCommitments);
+                        setApproverCommitments('');
+                      }}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Join
+                    </Button>
+                  </Box>
+                </>
+              )
+            )}
+          </Box>
+        )}
+
+        {payable && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mb: 2 }}>
+            <ScheduleIcon fontSize="small" color={untilDue > 0 ? 'action' : 'error'} />
+            <Typography variant="body2" color={untilDue > 0 ? 'text.secondary' : 'error'}>
+              {untilDue > 0 ? `Due in ${formatDuration(untilDue)}` : `Overdue by ${formatDuration(-untilDue)}`} (
+              {invoice.dueAt.toLocaleString('en-US')})
+            </Typography>
+            {untilDue <= 0 && invoice.state !== State.OVERDUE && (
+              <Button size="small" color="error" onClick={onMarkOverdue} sx={{ textTransform: 'none' }}>
+                Mark Overdue
+              </Button>
+            )}
+          </Box>
+        )}
+
+        {payable && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="body2" color="text.secondary">
+                Paid {invoice.paidAmount.toString()} of {invoice.amount.toString()}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Outstanding {invoice.outstanding.toString()} {currency}
+              </Typography>
+            </Box>
+            <LinearProgress variant="determinate" value={progress} sx={{ height: 8, borderRadius: 4 }} />
+          </Box>
+        )}
+
+        {payable &&
+          (invoice.canPay && invoice.milestones ? (
+            <>
+              <Button
+                variant="contained"
+                color="success"
+                size="large"
+                startIcon={<LockIcon />}
+                onClick={onFund}
+                fullWidth
+                sx={{
+                  py: 2,
+                  borderRadius: 2,
+                  fontSize: '1.1rem',
+                  fontWeight: 600,
+                  textTransform: 'none',
+                  boxShadow: 4,
+                }}
+              >
+                Fund Escrow
+              </Button>
+              <Typography variant="caption" color="text.secondary" display="block" textAlign="center" sx={{ mt: 1 }}>
+                {invoice.amount.toString()} {currency} will be held by the contract and released to the issuer as you
+                approve each milestone
+              </Typography>
+            </>
+          ) : invoice.canPay ? (
+            <>
+              <TextField
+                label="Amount to pay now"
+                value={portion}
+                onChange={(e) => {
+                  setPortion(e.target.value);
+                  setPortionError('');
+                }}
+                placeholder={invoice.outstanding.toString()}
+                error={!!portionError}
+                helperText={
+                  portionError ||
+                  (termsAdjustment !== 0n
+                    ? 'Leave empty to pay the whole outstanding amount; the discount or late fee applies to any amount'
+                    : 'Leave empty to pay the whole outstanding amount')
+                }
+                fullWidth
+                inputProps={{ inputMode: 'numeric' }}
+                InputProps={{
+                  endAdornment: <InputAdornment position="end">{currency}</InputAdornment>,
+                }}
+                sx={{ mb: 2 }}
+              />
+              <Button
+                variant="contained"
+                color="success"
+                size="large"
+                startIcon={<PaymentIcon />}
+                disabled={invoice.paused || !invoice.acknowledged || invoice.approvals < invoice.threshold}
+                onClick={onPayPortion}
+                fullWidth
+                sx={{
+                  py: 2,
+                  borderRadius: 2,
+                  fontSize: '1.1rem',
+                  fontWeight: 600,
+                  textTransform: 'none',
+                  boxShadow: 4,
+                  '&:hover': {
+                    boxShadow: 6,
+                    transform: 'translateY(-2px)',
+                    transition: 'all 0.3s ease',
+                  },
+                }}
+              >
+                Pay with Zero-Knowledge Proof
+              </Button>
+              <Typography variant="caption" color="text.secondary" display="block" textAlign="center" sx={{ mt: 1 }}>
+                {portion || invoice.outstanding.toString()} {currency} will be transferred from your wallet to the
+                issuer
+              </Typography>
+            </>
+          ) : (
+            <Alert
+              severity="warning"
+              sx={{
+                borderRadius: 2,
+                '& .MuiAlert-message': {
+                  width: '100%',
+                },
+              }}
+            >
+              <Typography variant="body1" fontWeight={500}>
+                Authorization Required
+              </Typography>
+              {invoice.payerSet ? (
+                <>
+                  <Typography variant="body2">
+                    This invoice can be paid by any of a set of payers. If you are one of them, paste the payer
+                    commitments the issuer named to join the set.
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 1 }}>
+                    <TextField
+                      label="Payer commitments"
+                      value={payerCommitments}
+                      onChange={(e) => setPayerCommitments(e.target.value)}
+                      size="small"
+                      fullWidth
+                      multiline
+                      maxRows={4}
+                      sx={{ '& textarea': { fontFamily: 'monospace' } }}
+                    />
+                    <Button
+                      variant="outlined"
+                      disabled={!payerCommitments.trim()}
+                      onClick={() => {
+                        onJoinPayerSet(payerCommitments);
+                        setPayerCommitments('');
+                      }}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Join
+                    </Button>
+                  </Box>
+                </>
+              ) : (
+                <Typography variant="body2">
+                  You are not authorized to pay this invoice. Only the designated payer can complete this transaction.
+                </Typography>
+              )}
+            </Alert>
+          ))}
+
+        {invoice.canCancel &&
+          (invoice.state === State.ISSUED || invoice.state === State.OVERDUE || quoted) &&
+          invoice.paidAmount === 0n &&
+          (cancelReason === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                color="error"
+                startIcon={<CloseIcon />}
+                onClick={() => setCancelReason('')}
+                sx={{ textTransform: 'none' }}
+              >
+                {quoted ? 'Withdraw Quote' : 'Cancel Invoice'}
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+              <TextField
+                label="Reason for cancelling"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                size="small"
+                fullWidth
+                autoFocus
+              />
+              <Button
+                variant="contained"
+                color="error"
+                disabled={!cancelReason.trim()}
+                onClick={() => {
+                  onCancel(cancelReason.trim());
+                  setCancelReason(undefined);
+                }}
+                sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+              >
+                {quoted ? 'Withdraw Quote' : 'Cancel Invoice'}
+              </Button>
+              <Button onClick={() => setCancelReason(undefined)} sx={{ textTransform: 'none' }}>
+                Keep
+              </Button>
+            </Box>
+          ))}
+
+        {creditable &&
+          (creditNote === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                startIcon={<MoneyOffIcon />}
+                onClick={() => setCreditNote({ amount: '', reason: '' })}
+                sx={{ textTransform: 'none' }}
+              >
+                Issue Credit Note
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+              <TextField
+                label="Amount to credit"
+                value={creditNote.amount}
+                onChange={(e) => {
+                  setCreditNote({ ...creditNote, amount: e.target.value });
+                  setCreditNoteError('');
+                }}
+                error={!!creditNoteError}
+                helperText={creditNoteError}
+                size="small"
+                inputProps={{ inputMode: 'numeric' }}
+                InputProps={{ endAdornment: <InputAdornment position="end">{currency}</InputAdornment> }}
+                sx={{ width: 200, flexShrink: 0 }}
+                autoFocus
+              />
+              <TextField
+                label="Reason for crediting"
+                value={creditNote.reason}
+                onChange={(e) => setCreditNote({ ...creditNote, reason: e.target.value })}
+                size="small"
+                fullWidth
+              />
+              <Button
+                variant="contained"
+                disabled={!creditNote.amount.trim() || !creditNote.reason.trim()}
+                onClick={onCreditPortion}
+                sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+              >
+                Issue Credit Note
+              </Button>
+              <Button
+                onClick={() => {
+                  setCreditNote(undefined);
+                  setCreditNoteError('');
+                }}
+                sx={{ textTransform: 'none' }}
+              >
+                Keep
+              </Button>
+            </Box>
+          ))}
+
+        {approvalsOpen &&
+          (invoice.isIssuer ? (
+            approvalPolicy === undefined ? (
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                <Button
+                  startIcon={<FactCheckIcon />}
+                  onClick={() => setApprovalPolicy({ commitments: '', threshold: '' })}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Require Approvals
+                </Button>
+              </Box>
+            ) : (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+                <TextField
+                  label="Approver commitments named by the buyer"
+                  value={approvalPolicy.commitments}
+                  onChange={(e) => {
+                    setApprovalPolicy({ ...approvalPolicy, commitments: e.target.value });
+                    setApprovalPolicyError('');
+                  }}
+                  error={!!approvalPolicyError}
+                  helperText={approvalPolicyError}
+                  size="small"
+                  fullWidth
+                  multiline
+                  maxRows={4}
+                  sx={{ '& textarea': { fontFamily: 'monospace' } }}
+                  autoFocus
+                />
+                <TextField
+                  label="Approvals"
+                  value={approvalPolicy.threshold}
+                  onChange={(e) => {
+                    setApprovalPolicy({ ...approvalPolicy, threshold: e.target.value });
+                    setApprovalPolicyError('');
+                  }}
+                  size="small"
+                  inputProps={{ inputMode: 'numeric' }}
+                  sx={{ width: 110, flexShrink: 0 }}
+                />
+                <Button
+                  variant="contained"
+                  disabled={!approvalPolicy.commitments.trim() || !approvalPolicy.threshold.trim()}
+                  onClick={onSubmitApprovalPolicy}
+                  sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+                >
+                  Require Approvals
+                </Button>
+                <Button
+                  onClick={() => {
+                    setApprovalPolicy(undefined);
+                    setApprovalPolicyError('');
+                  }}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Keep
+                </Button>
+              </Box>
+            )
+          ) : approverCommitment === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                startIcon={<FactCheckIcon />}
+                onClick={() => void onCreateApproverCommitment().then(setApproverCommitment)}
+                sx={{ textTransform: 'none' }}
+              >
+                Get Approver Commitment
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="overline" color="text.secondary" display="block">
+                Approver Commitment (hand it to the buyer to be named as an approver)
+              </Typography>
+              <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {approverCommitment}
+              </Typography>
+            </Box>
+          ))}
+
+        {revisable &&
+          (revision === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                startIcon={<EditNoteIcon />}
+                onClick={() =>
+                  setRevision({
+                    amount: invoice.amount.toString(),
+                    title: invoiceData.title,
+                    description: invoiceData.description,
+                  })
+                }
+                sx={{ textTransform: 'none' }}
+              >
+                Revise Invoice
+              </Button>
+            </Box>
+          ) : (
+            <Stack spacing={1} sx={{ mt: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                <TextField
+                  label="Revised amount"
+                  value={revision.amount}
+                  onChange={(e) => {
+                    setRevision({ ...revision, amount: e.target.value });
+                    setRevisionError('');
+                  }}
+                  error={!!revisionError}
+                  helperText={revisionError}
+                  size="small"
+                  inputProps={{ inputMode: 'numeric' }}
+                  InputProps={{ endAdornment: <InputAdornment position="end">{currency}</InputAdornment> }}
+                  sx={{ width: 200, flexShrink: 0 }}
+                  autoFocus
+                />
+                <TextField
+                  label="Title"
+                  value={revision.title}
+                  onChange={(e) => setRevision({ ...revision, title: e.target.value })}
+                  size="small"
+                  fullWidth
+                />
+              </Box>
+              <TextField
+                label="Description"
+                value={revision.description}
+                onChange={(e) => setRevision({ ...revision, description: e.target.value })}
+                size="small"
+                multiline
+                minRows={2}
+                fullWidth
+              />
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                <Button
+                  variant="contained"
+                  disabled={!revision.amount.trim() || !revision.title.trim()}
+                  onClick={onSubmitRevision}
+                  sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+                >
+                  Revise Invoice
+                </Button>
+                <Button
+                  onClick={() => {
+                    setRevision(undefined);
+                    setRevisionError('');
+                  }}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Keep
+                </Button>
+              </Box>
+            </Stack>
+          ))}
+
+        {assignable &&
+          (newPayee === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button startIcon={<SwapHorizIcon />} onClick={() => setNewPayee('')} sx={{ textTransform: 'none' }}>
+                Assign Receivable
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+              <TextField
+                label="Coin public key of the new payee"
+                value={newPayee}
+                onChange={(e) => {
+                  setNewPayee(e.target.value);
+                  setNewPayeeError('');
+                }}
+                error={!!newPayeeError}
+                helperText={newPayeeError || 'Payments already made stay with the current payee'}
+                size="small"
+                fullWidth
+                autoFocus
+              />
+              <Button
+                variant="contained"
+                disabled={!newPayee.trim()}
+                onClick={onAssign}
+                sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+              >
+                Assign Receivable
+              </Button>
+              <Button
+                onClick={() => {
+                  setNewPayee(undefined);
+                  setNewPayeeError('');
+                }}
+                sx={{ textTransform: 'none' }}
+              >
+                Keep
+              </Button>
+            </Box>
+          ))}
+
+        {invoice.state === State.CANCELLED && (
+          <Alert
+            severity="info"
+            action={
+              invoice.isIssuer && (
+                <Button color="inherit" size="small" onClick={onReset} sx={{ textTransform: 'none' }}>
+                  Remove
+                </Button>
+              )
+            }
+            sx={{ borderRadius: 2 }}
+          >
+            <Typography variant="body1" fontWeight={500}>
+              Cancelled by the issuer
+            </Typography>
+            {invoice.cancelReason && <Typography variant="body2">{invoice.cancelReason}</Typography>}
+          </Alert>
+        )}
+
+        {invoice.state === State.DISPUTED && (
+          <Alert severity="error" sx={{ borderRadius: 2 }}>
+            <Typography variant="body1" fontWeight={500}>
+              Disputed by the buyer
+            </Typography>
+            {invoice.disputeReason && <Typography variant="body2">{invoice.disputeReason}</Typography>}
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              {invoice.canPay && (
+                <Button size="small" variant="outlined" onClick={onResolveDispute} sx={{ textTransform: 'none' }}>
+                  Withdraw Dispute
+                </Button>
+              )}
+              {invoice.isIssuer && (
+                <Button
+                  size="small"
+                  variant="contained"
+                  color="error"
+                  onClick={onRefund}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Refund {invoice.chargedAmount.toString()} {currency}
+                </Button>
+              )}
+            </Box>
+          </Alert>
+        )}
+
+        {invoice.state === State.REFUNDED && (
+          <Alert
+            severity="info"
+            action={
+              invoice.isIssuer && (
+                <Button color="inherit" size="small" onClick={onReset} sx={{ textTransform: 'none' }}>
+                  Remove
+                </Button>
+              )
+            }
+            sx={{ borderRadius: 2 }}
+          >
+            <Typography variant="body1" fontWeight={500}>
+              Refunded {invoice.chargedAmount.toString()} {currency} to the buyer
+            </Typography>
+            {invoice.disputeReason && <Typography variant="body2">Dispute: {invoice.disputeReason}</Typography>}
+          </Alert>
+        )}
+
+        {invoice.state === State.PAID && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <CheckCircleIcon color="success" />
+              <Typography variant="body2" color="text.secondary">
+                Paid to the issuer and verified with ZK proof
+              </Typography>
+              {invoice.paidLate && <Chip label="Paid late" color="warning" size="small" />}
+            </Box>
+            {invoice.isIssuer && (
+              <Button variant="outlined" onClick={onReset} sx={{ borderRadius: 2, textTransform: 'none' }}>
+                Remove
+              </Button>
+            )}
+          </Box>
+        )}
+
+        {invoice.canPay && invoice.paidAmount > 0n && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                {invoice.receipt
+                  ? `Receipt for ${invoice.receipt.paidAmount.toString()} ${currency} paid`
+                  : 'Export a receipt to prove this payment later without revealing your key'}
+              </Typography>
+              {invoice.receipt ? (
+                <Button
+                  size="small"
+                  startIcon={<VerifiedIcon />}
+                  onClick={() => void onProveReceipt().then(setReceiptProof)}
+                  sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+                >
+                  Prove Payment
+                </Button>
+              ) : (
+                <Button
+                  size="small"
+                  startIcon={<ReceiptLongIcon />}
+                  onClick={onExportReceipt}
+                  sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+                >
+                  Export Receipt
+                </Button>
+              )}
+            </Box>
+            {receiptProof && (
+              <Alert severity="success" onClose={() => setReceiptProof(undefined)} sx={{ mt: 1, borderRadius: 2 }}>
+                <Typography variant="body2">Payment proven in transaction</Typography>
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {receiptProof}
+                </Typography>
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {disputable &&
+          (disputeReason === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button color="error" onClick={() => setDisputeReason('')} sx={{ textTransform: 'none' }}>
+                Dispute Invoice
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+              <TextField
+                label="Reason for disputing"
+                value={disputeReason}
+                onChange={(e) => setDisputeReason(e.target.value)}
+                helperText="The issuer can refund everything you have paid"
+                size="small"
+                fullWidth
+                autoFocus
+              />
+              <Button
+                variant="contained"
+                color="error"
+                disabled={!disputeReason.trim()}
+                onClick={() => {
+                  onOpenDispute(disputeReason.trim());
+                  setDisputeReason(undefined);
+                }}
+                sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+              >
+                Open Dispute
+              </Button>
+              <Button onClick={() => setDisputeReason(undefined)} sx={{ textTransform: 'none' }}>
+                Back
+              </Button>
+            </Box>
+          ))}
+      </Paper>
+    </Fade>
+  );
+};
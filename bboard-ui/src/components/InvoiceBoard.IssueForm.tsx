@@ -0,0 +1,822 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { useState } from 'react';
+import {
+  IconButton,
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Divider,
+  InputAdornment,
+  Fade,
+  Paper,
+  MenuItem,
+  Stack,
+  Tooltip,
+} from '@mui/material';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import TitleIcon from '@mui/icons-material/Title';
+import DescriptionIcon from '@mui/icons-material/Description';
+import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
+import CalendarTodayIcon from '@mui/icons-material/CalendarToday';
+import EventIcon from '@mui/icons-material/Event';
+import CloseIcon from '@mui/icons-material/Close';
+import KeyIcon from '@mui/icons-material/Key';
+import TagIcon from '@mui/icons-material/Tag';
+import LockIcon from '@mui/icons-material/Lock';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import AddIcon from '@mui/icons-material/Add';
+import RemoveCircleOutlineIcon from '@mui/icons-material/RemoveCircleOutline';
+import FlagIcon from '@mui/icons-material/Flag';
+import RequestQuoteIcon from '@mui/icons-material/RequestQuote';
+import PercentIcon from '@mui/icons-material/Percent';
+import { type InvoiceContractDerivedState, type InvoiceData, utils } from '../../../api/src/index';
+import { fromHex, isHex } from '@midnight-ntwrk/midnight-js-utils';
+import { nativeToken } from '@midnight-ntwrk/ledger';
+import { BASIS_POINTS, MAX_MILESTONES, MAX_PAYEES, PAYER_SET_DEPTH } from '../../../contract/src/index';
+import { splitCommitments, tokenLabel } from './InvoiceBoard.utils';
+
+/** A row of the payment split on the issue form, with the share as entered, in percent. */
+type SplitRow = { payee: string; percent: string };
+
+/** A row of the escrow milestones on the issue form, with the amount as entered. */
+type MilestoneRow = { title: string; amount: string };
+
+/**
+ * The values entered on the issue form. The invoice board keeps them, so that they survive the form being hidden
+ * while an invoice is issued and are still there if issuing fails.
+ *
+ * @internal
+ */
+export interface IssueFormValues {
+  invoiceId: string;
+  title: string;
+  description: string;
+  amount: string;
+  tokenType: string;
+  payerCommitment: string;
+  buyerEncryptionKey: string;
+  dueDate: string;
+  splitRows: SplitRow[];
+  milestoneRows: MilestoneRow[];
+  discountPercent: string;
+  discountUntil: string;
+  lateFeePercent: string;
+}
+
+/**
+ * An invoice to issue, as entered on the issue form. It is issued as an escrow invoice when its document names
+ * milestones.
+ *
+ * @internal
+ */
+export interface IssueRequest {
+  /** The invoice id, taken from the buyer's payer request. */
+  invoiceId: Uint8Array;
+  /** The amount of the invoice. */
+  amount: bigint;
+  /** The invoice document. */
+  invoiceData: InvoiceData;
+  /** The commitment of the buyer, or the commitments of a set of payers. */
+  payer: Uint8Array | Uint8Array[];
+  /** The end of the day payment is due by. */
+  dueAt: Date;
+  /** The key of the buyer to encrypt the document to, if they gave one. */
+  encryptionKey?: Uint8Array;
+  /** Whether to send the invoice as a quote the buyer must accept first. */
+  asQuote: boolean;
+}
+
+/** Converts a share entered in percent, with at most two decimals, to basis points. */
+const percentToBasisPoints = (percent: string): number | undefined =>
+  /^\d+(\.\d{1,2})?$/.test(percent.trim()) ? Math.round(Number(percent.trim()) * 100) : undefined;
+
+/** The default due date offered when issuing an invoice, 30 days from today, as `YYYY-MM-DD`. */
+const defaultDueDate = (): string => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+/**
+ * The values of an empty issue form.
+ *
+ * @internal
+ */
+export const emptyIssueForm = (): IssueFormValues => ({
+  invoiceId: '',
+  title: '',
+  description: '',
+  amount: '',
+  tokenType: nativeToken(),
+  payerCommitment: '',
+  buyerEncryptionKey: '',
+  dueDate: defaultDueDate(),
+  splitRows: [],
+  milestoneRows: [],
+  discountPercent: '',
+  discountUntil: '',
+  lateFeePercent: '',
+});
+
+/**
+ * The props required by the {@link IssueForm} component.
+ *
+ * @internal
+ */
+export interface IssueFormProps {
+  /** The values entered so far. */
+  values: IssueFormValues;
+  /** The invoices held by the contract, keyed by their hex-encoded id. */
+  invoices: InvoiceContractDerivedState['invoices'];
+  /** The wallet's balance of each token, offered as the tokens the invoice can be paid in. */
+  balances: Readonly<Record<string, bigint>>;
+  /** A callback that will be called with the new values whenever one is changed. */
+  onChange: (values: IssueFormValues) => void;
+  /** A callback that will be called to issue the invoice, once the values entered are valid. */
+  onIssue: (request: IssueRequest) => void;
+  /** A callback that will be called to close the form, discarding the values entered. */
+  onClose: () => void;
+}
+
+/**
+ * Renders the form the issuer fills in to issue an invoice, quote or escrow invoice.
+ *
+ * @internal
+ */
+export const IssueForm: React.FC<Readonly<IssueFormProps>> = ({
+  values,
+  invoices,
+  balances,
+  onChange,
+  onIssue,
+  onClose,
+}) => {
+  const {
+    invoiceId,
+    title,
+    description,
+    amount,
+    tokenType,
+    payerCommitment,
+    buyerEncryptionKey,
+    dueDate,
+    splitRows,
+    milestoneRows,
+    discountPercent,
+    discountUntil,
+    lateFeePercent,
+  } = values;
+
+  const update = (changes: Partial<IssueFormValues>) => onChange({ ...values, ...changes });
+
+  // Form validation
+  const [invoiceIdError, setInvoiceIdError] = useState('');
+  const [titleError, setTitleError] = useState('');
+  const [amountError, setAmountError] = useState('');
+  const [payerCommitmentError, setPayerCommitmentError] = useState('');
+  const [buyerEncryptionKeyError, setBuyerEncryptionKeyError] = useState('');
+  const [dueDateError, setDueDateError] = useState('');
+  const [splitError, setSplitError] = useState('');
+  const [milestoneError, setMilestoneError] = useState('');
+  const [termsError, setTermsError] = useState('');
+
+  const validateForm = () => {
+    let isValid = true;
+
+    if (!invoiceId.trim()) {
+      setInvoiceIdError("Invoice ID is required, from the buyer's payer request");
+      isValid = false;
+    } else if (!isHex(invoiceId.trim(), 32)) {
+      setInvoiceIdError('Invoice ID must be 32 bytes of hex');
+      isValid = false;
+    } else if (invoices.has(invoiceId.trim())) {
+      setInvoiceIdError('An invoice with this ID already exists');
+      isValid = false;
+    } else {
+      setInvoiceIdError('');
+    }
+
+    if (!title.trim()) {
+      setTitleError('Title is required');
+      isValid = false;
+    } else if (title.length < 3) {
+      setTitleError('Title must be at least 3 characters');
+      isValid = false;
+    } else {
+      setTitleError('');
+    }
+
+    if (!amount) {
+      setAmountError('Amount is required');
+      isValid = false;
+    } else if (Number(amount) <= 0) {
+      setAmountError('Amount must be greater than 0');
+      isValid = false;
+    } else {
+      setAmountError('');
+    }
+
+    const payerCommitments = splitCommitments(payerCommitment);
+    if (payerCommitments.length === 0 || !payerCommitments.every((commitment) => isHex(commitment, 32))) {
+      setPayerCommitmentError('Each payer commitment must be 32 bytes of hex');
+      isValid = false;
+    } else if (payerCommitments.length > 2 ** PAYER_SET_DEPTH) {
+      setPayerCommitmentError(`At most ${2 ** PAYER_SET_DEPTH} payers can be named`);
+      isValid = false;
+    } else {
+      setPayerCommitmentError('');
+    }
+
+    if (buyerEncryptionKey.trim() && !isHex(buyerEncryptionKey.trim(), utils.ENCRYPTION_PUBLIC_KEY_LENGTH)) {
+      setBuyerEncryptionKeyError(`Encryption key must be ${utils.ENCRYPTION_PUBLIC_KEY_LENGTH} bytes of hex`);
+      isValid = false;
+    } else {
+      setBuyerEncryptionKeyError('');
+    }
+
+    if (!dueDate) {
+      setDueDateError('Due date is required');
+      isValid = false;
+    } else if (new Date(`${dueDate}T23:59:59`).getTime() <= Date.now()) {
+      setDueDateError('Due date must be in the future');
+      isValid = false;
+    } else {
+      setDueDateError('');
+    }
+
+    const shares = splitRows.map(({ percent }) => percentToBasisPoints(percent));
+    if (splitRows.some(({ payee }) => !isHex(payee.trim(), 32))) {
+      setSplitError('Each payee coin public key must be 32 bytes of hex');
+      isValid = false;
+    } else if (shares.some((share) => share === undefined || share === 0)) {
+      setSplitError('Each share must be a positive percentage with at most two decimals');
+      isValid = false;
+    } else if (
+      splitRows.length > 0 &&
+      shares.reduce<number>((total, share) => total + (share ?? 0), 0) !== Number(BASIS_POINTS)
+    ) {
+      setSplitError('The shares must add up to 100%');
+      isValid = false;
+    } else {
+      setSplitError('');
+    }
+
+    if (milestoneRows.some(({ title }) => !title.trim())) {
+      setMilestoneError('Each milestone needs a title');
+      isValid = false;
+    } else if (milestoneRows.some(({ amount }) => !/^\d+$/.test(amount.trim()) || BigInt(amount.trim()) === 0n)) {
+      setMilestoneError('Each milestone amount must be a whole number greater than 0');
+      isValid = false;
+    } else if (
+      milestoneRows.length > 0 &&
+      /^\d+$/.test(amount) &&
+      milestoneRows.reduce((total, row) => total + BigInt(row.amount.trim()), 0n) !== BigInt(amount)
+    ) {
+      setMilestoneError('The milestone amounts must add up to the invoice amount');
+      isValid = false;
+    } else if (milestoneRows.length > 0 && splitRows.length > 0) {
+      setMilestoneError('Escrow invoices are released to the issuer and cannot be split');
+      isValid = false;
+    } else {
+      setMilestoneError('');
+    }
+
+    const discount = discountPercent.trim() ? percentToBasisPoints(discountPercent) : 0;
+    const lateFee = lateFeePercent.trim() ? percentToBasisPoints(lateFeePercent) : 0;
+    if (discount === undefined || lateFee === undefined) {
+      setTermsError('The discount and late fee must be percentages with at most two decimals');
+      isValid = false;
+    } else if (discount >= Number(BASIS_POINTS)) {
+      setTermsError('The discount must be less than 100%');
+      isValid = false;
+    } else if (discount > 0 && !discountUntil) {
+      setTermsError('A discount needs the date payment must be made by to earn it');
+      isValid = false;
+    } else if (discount > 0 && new Date(`${discountUntil}T23:59:59`).getTime() <= Date.now()) {
+      setTermsError('The discount period must end in the future');
+      isValid = false;
+    } else if (discount > 0 && dueDate && discountUntil > dueDate) {
+      setTermsError('The discount period must end by the due date');
+      isValid = false;
+    } else if ((discount > 0 || lateFee > 0) && milestoneRows.length > 0) {
+      setTermsError('Escrow invoices are funded in full up front and cannot have a discount or late fee');
+      isValid = false;
+    } else {
+      setTermsError('');
+    }
+
+    return isValid;
+  };
+
+  const onSubmit = (asQuote: boolean) => {
+    if (!validateForm()) {
+      return;
+    }
+
+    const payerCommitments = splitCommitments(payerCommitment);
+    const invoiceData: InvoiceData = {
+      title: title.trim(),
+      description: description.trim(),
+      issuedAt: new Date().toISOString().split('T')[0],
+      currency: tokenLabel(tokenType),
+      // Without a token type, the invoice is paid in the native token
+      ...(tokenType !== nativeToken() && { tokenType }),
+      // Without a split, payments go to the issuer
+      ...(splitRows.length > 0 && {
+        split: splitRows.map(({ payee, percent }) => ({
+          payee: payee.trim(),
+          share: percentToBasisPoints(percent) ?? 0,
+        })),
+      }),
+      ...(milestoneRows.length > 0 && {
+        milestones: milestoneRows.map((row) => ({ title: row.title.trim(), amount: row.amount.trim() })),
+      }),
+      // Like the due date, the discount period ends at the end of the chosen day
+      ...((discountPercent.trim() || lateFeePercent.trim()) && {
+        terms: {
+          discount: percentToBasisPoints(discountPercent) ?? 0,
+          ...(discountUntil && { discountUntil: new Date(`${discountUntil}T23:59:59`).toISOString() }),
+          lateFee: percentToBasisPoints(lateFeePercent) ?? 0,
+        },
+      }),
+    };
+    // Several commitments issue the invoice to a set of payers, any of whom can pay
+    const payer = payerCommitments.length === 1 ? fromHex(payerCommitments[0]) : payerCommitments.map(fromHex);
+    // Payment is due by the end of the chosen day, in the issuer's time zone
+    const dueAt = new Date(`${dueDate}T23:59:59`);
+    const encryptionKey = buyerEncryptionKey.trim() ? fromHex(buyerEncryptionKey.trim()) : undefined;
+    onIssue({
+      invoiceId: fromHex(invoiceId.trim()),
+      amount: BigInt(amount),
+      invoiceData,
+      payer,
+      dueAt,
+      encryptionKey,
+      asQuote,
+    });
+  };
+
+  const cannotIssue =
+    !invoiceId.trim() ||
+    !title.trim() ||
+    !amount ||
+    !payerCommitment.trim() ||
+    !dueDate ||
+    !!invoiceIdError ||
+    !!titleError ||
+    !!amountError ||
+    !!payerCommitmentError ||
+    !!buyerEncryptionKeyError ||
+    !!dueDateError ||
+    !!termsError;
+
+  return (
+    <Fade in timeout={500}>
+      <Paper elevation={0} sx={{ p: 3, mb: 3, bgcolor: 'background.default', borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+          <Typography variant="h5" fontWeight={600} color="primary">
+            Create Invoice
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 3 }} />
+
+        <Stack spacing={3}>
+          <TextField
+            label="Invoice ID"
+            placeholder="From the buyer's payer request"
+            value={invoiceId}
+            onChange={(e) => {
+              update({ invoiceId: e.target.value });
+              if (invoiceIdError) setInvoiceIdError('');
+            }}
+            fullWidth
+            required
+            error={!!invoiceIdError}
+            helperText={invoiceIdError || 'Use the ID the buyer created their payer commitment for'}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <TagIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 }, '& input': { fontFamily: 'monospace' } }}
+          />
+
+          <TextField
+            label="Invoice Title"
+            placeholder="e.g., Website Development Project"
+            value={title}
+            onChange={(e) => {
+              update({ title: e.target.value });
+              if (titleError) setTitleError('');
+            }}
+            fullWidth
+            required
+            error={!!titleError}
+            helperText={titleError || 'A clear and descriptive title for this invoice'}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <TitleIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 } }}
+          />
+
+          <TextField
+            label="Description"
+            placeholder="Add any additional details about this invoice..."
+            value={description}
+            onChange={(e) => update({ description: e.target.value })}
+            fullWidth
+            multiline
+            rows={4}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start" sx={{ alignSelf: 'flex-start', mt: 2 }}>
+                  <DescriptionIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 } }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              label="Amount"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => {
+                update({ amount: e.target.value });
+                if (amountError) setAmountError('');
+              }}
+              type="number"
+              required
+              error={!!amountError}
+              helperText={amountError || 'Enter the invoice amount'}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <AttachMoneyIcon color="action" />
+                  </InputAdornment>
+                ),
+              }}
+              inputProps={{ min: 0, step: 'any' }}
+              sx={{
+                flex: '1 1 65%',
+                minWidth: '200px',
+                '& .MuiOutlinedInput-root': { borderRadius: 2 },
+              }}
+            />
+
+            <TextField
+              select
+              label="Currency"
+              value={tokenType}
+              onChange={(e) => update({ tokenType: e.target.value })}
+              helperText={balances[tokenType] !== undefined ? `Balance ${balances[tokenType].toString()}` : ' '}
+              sx={{
+                flex: '1 1 30%',
+                minWidth: '100px',
+                '& .MuiOutlinedInput-root': { borderRadius: 2 },
+              }}
+            >
+              {/* The native token is always offered, even by a wallet that doesn't report balances */}
+              {[nativeToken(), ...Object.keys(balances).filter((type) => type !== nativeToken())].map((type) => (
+                <MenuItem key={type} value={type}>
+                  {tokenLabel(type)}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
+          <TextField
+            label="Payer Commitment"
+            placeholder="Commitment provided by the buyer"
+            value={payerCommitment}
+            onChange={(e) => {
+              update({ payerCommitment: e.target.value });
+              if (payerCommitmentError) setPayerCommitmentError('');
+            }}
+            fullWidth
+            required
+            multiline
+            maxRows={4}
+            error={!!payerCommitmentError}
+            helperText={
+              payerCommitmentError ||
+              'Only the holder of the matching secret key can pay this invoice. Enter one commitment per line to let any of several payers pay'
+            }
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <KeyIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 }, '& textarea': { fontFamily: 'monospace' } }}
+          />
+
+          <TextField
+            label="Buyer Encryption Key"
+            placeholder="Optional key provided by the buyer"
+            value={buyerEncryptionKey}
+            onChange={(e) => {
+              update({ buyerEncryptionKey: e.target.value });
+              if (buyerEncryptionKeyError) setBuyerEncryptionKeyError('');
+            }}
+            fullWidth
+            error={!!buyerEncryptionKeyError}
+            helperText={
+              buyerEncryptionKeyError ||
+              'If given, the invoice document is published on-chain encrypted so that only the buyer can read it'
+            }
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <LockIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 }, '& input': { fontFamily: 'monospace' } }}
+          />
+
+          <TextField
+            label="Due Date"
+            type="date"
+            value={dueDate}
+            onChange={(e) => {
+              update({ dueDate: e.target.value });
+              if (dueDateError) setDueDateError('');
+            }}
+            fullWidth
+            required
+            error={!!dueDateError}
+            helperText={dueDateError || 'Payments after the end of this day are recorded as late'}
+            InputLabelProps={{ shrink: true }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <EventIcon color="action" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 } }}
+          />
+
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, color: 'text.secondary' }}>
+              <PercentIcon fontSize="small" />
+              <Typography variant="body2">
+                Payment terms, e.g. 2% off if paid within 10 days, are applied on-chain at the time of payment
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1}>
+              <TextField
+                label="Early-payment discount"
+                value={discountPercent}
+                onChange={(e) => {
+                  update({ discountPercent: e.target.value });
+                  if (termsError) setTermsError('');
+                }}
+                size="small"
+                fullWidth
+                inputProps={{ inputMode: 'decimal' }}
+                InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              />
+              <TextField
+                label="If paid by"
+                type="date"
+                value={discountUntil}
+                onChange={(e) => {
+                  update({ discountUntil: e.target.value });
+                  if (termsError) setTermsError('');
+                }}
+                size="small"
+                fullWidth
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                label="Late fee"
+                value={lateFeePercent}
+                onChange={(e) => {
+                  update({ lateFeePercent: e.target.value });
+                  if (termsError) setTermsError('');
+                }}
+                size="small"
+                fullWidth
+                inputProps={{ inputMode: 'decimal' }}
+                InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              />
+            </Stack>
+            {termsError && (
+              <Typography variant="caption" color="error">
+                {termsError}
+              </Typography>
+            )}
+          </Box>
+
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
+                <CallSplitIcon fontSize="small" />
+                <Typography variant="body2">
+                  {splitRows.length > 0
+                    ? 'Payments are split between these payees'
+                    : 'Payments go to you unless you split them between payees'}
+                </Typography>
+              </Box>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                disabled={splitRows.length >= MAX_PAYEES}
+                onClick={() => update({ splitRows: [...splitRows, { payee: '', percent: '' }] })}
+                sx={{ textTransform: 'none' }}
+              >
+                Add payee
+              </Button>
+            </Box>
+            <Stack spacing={1}>
+              {splitRows.map((row, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TextField
+                    label="Payee Coin Public Key"
+                    value={row.payee}
+                    onChange={(e) => {
+                      update({
+                        splitRows: splitRows.map((r, i) => (i === index ? { ...r, payee: e.target.value } : r)),
+                      });
+                      if (splitError) setSplitError('');
+                    }}
+                    size="small"
+                    fullWidth
+                    sx={{ '& input': { fontFamily: 'monospace' } }}
+                  />
+                  <TextField
+                    label="Share"
+                    value={row.percent}
+                    onChange={(e) => {
+                      update({
+                        splitRows: splitRows.map((r, i) => (i === index ? { ...r, percent: e.target.value } : r)),
+                      });
+                      if (splitError) setSplitError('');
+                    }}
+                    size="small"
+                    InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                    sx={{ width: 140, flexShrink: 0 }}
+                  />
+                  <Tooltip title="Remove payee">
+                    <IconButton
+                      size="small"
+                      onClick={() => update({ splitRows: splitRows.filter((_, i) => i !== index) })}
+                    >
+                      <RemoveCircleOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ))}
+            </Stack>
+            {splitError && (
+              <Typography variant="caption" color="error">
+                {splitError}
+              </Typography>
+            )}
+          </Box>
+
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
+                <FlagIcon fontSize="small" />
+                <Typography variant="body2">
+                  {milestoneRows.length > 0
+                    ? 'The buyer funds an escrow, released to you milestone by milestone'
+                    : 'The buyer pays you directly unless you bill by milestones'}
+                </Typography>
+              </Box>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                disabled={milestoneRows.length >= MAX_MILESTONES}
+                onClick={() => update({ milestoneRows: [...milestoneRows, { title: '', amount: '' }] })}
+                sx={{ textTransform: 'none' }}
+              >
+                Add milestone
+              </Button>
+            </Box>
+            <Stack spacing={1}>
+              {milestoneRows.map((row, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TextField
+                    label={`Milestone ${index + 1}`}
+                    value={row.title}
+                    onChange={(e) => {
+                      update({
+                        milestoneRows: milestoneRows.map((r, i) => (i === index ? { ...r, title: e.target.value } : r)),
+                      });
+                      if (milestoneError) setMilestoneError('');
+                    }}
+                    size="small"
+                    fullWidth
+                  />
+                  <TextField
+                    label="Amount"
+                    value={row.amount}
+                    onChange={(e) => {
+                      update({
+                        milestoneRows: milestoneRows.map((r, i) =>
+                          i === index ? { ...r, amount: e.target.value } : r,
+                        ),
+                      });
+                      if (milestoneError) setMilestoneError('');
+                    }}
+                    size="small"
+                    InputProps={{
+                      endAdornment: <InputAdornment position="end">{tokenLabel(tokenType)}</InputAdornment>,
+                    }}
+                    sx={{ width: 180, flexShrink: 0 }}
+                  />
+                  <Tooltip title="Remove milestone">
+                    <IconButton
+                      size="small"
+                      onClick={() => update({ milestoneRows: milestoneRows.filter((_, i) => i !== index) })}
+                    >
+                      <RemoveCircleOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ))}
+            </Stack>
+            {milestoneError && (
+              <Typography variant="caption" color="error">
+                {milestoneError}
+              </Typography>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
+            <CalendarTodayIcon fontSize="small" />
+            <Typography variant="body2">
+              Issue Date:{' '}
+              {new Date().toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Typography>
+          </Box>
+        </Stack>
+
+        <Divider sx={{ my: 3 }} />
+
+        <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+          <Button
+            variant="outlined"
+            size="large"
+            onClick={onClose}
+            sx={{ borderRadius: 2, textTransform: 'none', px: 3 }}
+          >
+            Cancel
+          </Button>
+          <Tooltip title="The buyer accepts a quote before it is issued as an invoice and can be paid">
+            <span>
+              <Button
+                variant="outlined"
+                size="large"
+                onClick={() => onSubmit(true)}
+                disabled={cannotIssue || milestoneRows.length > 0}
+                startIcon={<RequestQuoteIcon />}
+                sx={{ borderRadius: 2, textTransform: 'none', px: 3 }}
+              >
+                Send Quote
+              </Button>
+            </span>
+          </Tooltip>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={() => onSubmit(false)}
+            disabled={cannotIssue}
+            startIcon={<ReceiptIcon />}
+            sx={{
+              borderRadius: 2,
+              textTransform: 'none',
+              px: 3,
+              boxShadow: 2,
+              '&:hover': {
+                boxShadow: 4,
+              },
+            }}
+          >
+            Issue Invoice
+          </Button>
+        </Box>
+      </Paper>
+    </Fade>
+  );
+};
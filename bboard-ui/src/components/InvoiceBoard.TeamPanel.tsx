@@ -0,0 +1,230 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { useState } from 'react';
+import {
+  IconButton,
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Chip,
+  Divider,
+  Alert,
+  Fade,
+  Paper,
+  MenuItem,
+  Stack,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import KeyIcon from '@mui/icons-material/Key';
+import AddIcon from '@mui/icons-material/Add';
+import GroupsIcon from '@mui/icons-material/Groups';
+import { type TeamMemberDerivedState } from '../../../api/src/index';
+import { isHex } from '@midnight-ntwrk/midnight-js-utils';
+import { Role } from '../../../contract/src/index';
+
+/** The roles of the issuer's team, with the flag of a team member that records each. */
+const teamRoles = [
+  { role: Role.ADMIN, label: 'Admin', flag: 'admin' },
+  { role: Role.ISSUER, label: 'Issuer', flag: 'issuer' },
+  { role: Role.CANCELLER, label: 'Canceller', flag: 'canceller' },
+] as const;
+
+/**
+ * The props required by the {@link TeamPanel} component.
+ *
+ * @internal
+ */
+export interface TeamPanelProps {
+  /** The members of the issuer's team. */
+  team: readonly TeamMemberDerivedState[];
+  /** Whether the current user is an admin, and so may manage the team. */
+  isAdmin: boolean;
+  /** Whether the contract is paused. */
+  paused: boolean;
+  /** A callback that will be called to grant the given role to the given hex-encoded member commitment. */
+  onAddMember: (member: string, role: Role) => void;
+  /** A callback that will be called to revoke the given role from the given hex-encoded member commitment. */
+  onRemoveMember: (member: string, role: Role) => void;
+  /** A callback that will be called to get the member commitment of the current user, resolving to its hex encoding. */
+  onGetMemberCommitment: () => Promise<string | undefined>;
+  /** A callback that will be called to pause the contract in an emergency. */
+  onPause: () => void;
+  /** A callback that will be called to close the panel. */
+  onClose: () => void;
+}
+
+/**
+ * Renders the issuer's team and the roles each member holds, letting admins grant and revoke roles.
+ *
+ * @internal
+ */
+export const TeamPanel: React.FC<Readonly<TeamPanelProps>> = ({
+  team,
+  isAdmin,
+  paused,
+  onAddMember,
+  onRemoveMember,
+  onGetMemberCommitment,
+  onPause,
+  onClose,
+}) => {
+  // The member commitment and role to grant, shown once an admin chooses to add a member
+  const [newMember, setNewMember] = useState<{ commitment: string; role: Role }>();
+  const [newMemberError, setNewMemberError] = useState('');
+
+  // The current user's own member commitment, to hand to an admin
+  const [memberCommitment, setMemberCommitment] = useState<string>();
+
+  const onAdd = () => {
+    if (newMember === undefined) {
+      return;
+    }
+    if (!isHex(newMember.commitment.trim(), 32)) {
+      setNewMemberError('A member commitment is 32 bytes of hex');
+      return;
+    }
+    setNewMemberError('');
+    setNewMember(undefined);
+    onAddMember(newMember.commitment.trim(), newMember.role);
+  };
+
+  return (
+    <Fade in timeout={500}>
+      <Paper elevation={0} sx={{ p: 3, mb: 3, bgcolor: 'background.default', borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <GroupsIcon color="primary" />
+            <Typography variant="h6" fontWeight={600} color="primary">
+              Team
+            </Typography>
+          </Box>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Stack spacing={1}>
+          {team.map((member) => (
+            <Box key={member.key} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="caption" sx={{ fontFamily: 'monospace', flexGrow: 1 }}>
+                {member.key.slice(0, 16)}…{member.key.slice(-8)}
+              </Typography>
+              {member.isSelf && <Chip label="You" size="small" color="primary" variant="outlined" />}
+              {teamRoles
+                .filter(({ flag }) => member[flag])
+                .map(({ role, label }) => (
+                  <Chip
+                    key={label}
+                    label={label}
+                    size="small"
+                    onDelete={isAdmin ? () => onRemoveMember(member.key, role) : undefined}
+                  />
+                ))}
+            </Box>
+          ))}
+        </Stack>
+
+        {isAdmin &&
+          (newMember === undefined ? (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={() => setNewMember({ commitment: '', role: Role.ISSUER })}
+                sx={{ textTransform: 'none' }}
+              >
+                Add Member
+              </Button>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mt: 2 }}>
+              <TextField
+                label="Member commitment"
+                value={newMember.commitment}
+                onChange={(e) => {
+                  setNewMember({ ...newMember, commitment: e.target.value });
+                  setNewMemberError('');
+                }}
+                error={!!newMemberError}
+                helperText={newMemberError}
+                size="small"
+                fullWidth
+                InputProps={{ sx: { fontFamily: 'monospace' } }}
+                autoFocus
+              />
+              <TextField
+                select
+                label="Role"
+                value={newMember.role}
+                onChange={(e) => setNewMember({ ...newMember, role: Number(e.target.value) as Role })}
+                size="small"
+                sx={{ width: 140, flexShrink: 0 }}
+              >
+                {teamRoles.map(({ role, label }) => (
+                  <MenuItem key={label} value={role}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button
+                variant="contained"
+                disabled={!newMember.commitment.trim()}
+                onClick={onAdd}
+                sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+              >
+                Add Member
+              </Button>
+              <Button
+                onClick={() => {
+                  setNewMember(undefined);
+                  setNewMemberError('');
+                }}
+                sx={{ textTransform: 'none' }}
+              >
+                Keep
+              </Button>
+            </Box>
+          ))}
+
+        {isAdmin && !paused && (
+          <Alert
+            severity="warning"
+            action={
+              <Button color="inherit" size="small" onClick={onPause} sx={{ textTransform: 'none' }}>
+                Pause Contract
+              </Button>
+            }
+            sx={{ mt: 2, borderRadius: 2 }}
+          >
+            If a key has been compromised, pause the contract to stop invoices being issued or paid.
+          </Alert>
+        )}
+
+        {memberCommitment === undefined ? (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+            <Button
+              startIcon={<KeyIcon />}
+              onClick={() => void onGetMemberCommitment().then(setMemberCommitment)}
+              sx={{ textTransform: 'none' }}
+            >
+              Get Member Commitment
+            </Button>
+          </Box>
+        ) : (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="overline" color="text.secondary" display="block">
+              Member Commitment (hand it to an admin to join the team)
+            </Typography>
+            <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {memberCommitment}
+            </Typography>
+          </Box>
+        )}
+      </Paper>
+    </Fade>
+  );
+};
@@ -8,37 +8,41 @@ import {
   Backdrop,
   CircularProgress,
   Card,
-  CardActions,
   CardContent,
   CardHeader,
   IconButton,
   Skeleton,
   Typography,
-  TextField,
   Button,
   Box,
   Chip,
-  Divider,
-  InputAdornment,
   Alert,
   Fade,
   Paper,
   Stack,
+  Tooltip,
 } from '@mui/material';
-import PaymentIcon from '@mui/icons-material/Payment';
 import ReceiptIcon from '@mui/icons-material/Receipt';
-import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import TitleIcon from '@mui/icons-material/Title';
-import DescriptionIcon from '@mui/icons-material/Description';
-import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
-import CalendarTodayIcon from '@mui/icons-material/CalendarToday';
-import CloseIcon from '@mui/icons-material/Close';
-import { type InvoiceDerivedState, type DeployedInvoiceAPI, type InvoiceData } from '../../../api/src/index';
+import KeyIcon from '@mui/icons-material/Key';
+import GroupsIcon from '@mui/icons-material/Groups';
+import PauseCircleIcon from '@mui/icons-material/PauseCircle';
+import {
+  type InvoiceDerivedState,
+  type InvoiceContractDerivedState,
+  type DeployedInvoiceAPI,
+  type InvoiceData,
+  utils,
+} from '../../../api/src/index';
 import { useDeployedInvoiceContext } from '../hooks';
 import { type InvoiceDeployment } from '../contexts';
 import { type Observable } from 'rxjs';
-import { State } from '../../../contract/src/index';
+import { fromHex, toHex } from '@midnight-ntwrk/midnight-js-utils';
+import { Role } from '../../../contract/src/index';
 import { EmptyCardContent } from './Board.EmptyCardContent';
+import { InvoiceItem } from './InvoiceBoard.InvoiceItem';
+import { IssueForm, emptyIssueForm, type IssueRequest } from './InvoiceBoard.IssueForm';
+import { TeamPanel } from './InvoiceBoard.TeamPanel';
+import { splitCommitments } from './InvoiceBoard.utils';
 
 /** The props required by the {@link InvoiceBoard} component. */
 export interface InvoiceBoardProps {
@@ -54,19 +58,19 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
   const [invoiceDeployment, setInvoiceDeployment] = useState<InvoiceDeployment>();
   const [deployedInvoiceAPI, setDeployedInvoiceAPI] = useState<DeployedInvoiceAPI>();
   const [errorMessage, setErrorMessage] = useState<string>();
-  const [invoiceState, setInvoiceState] = useState<InvoiceDerivedState>();
+  const [invoiceState, setInvoiceState] = useState<InvoiceContractDerivedState>();
   const [isWorking, setIsWorking] = useState(!!invoiceDeployment$);
   const [showIssueForm, setShowIssueForm] = useState(false);
+  const [showTeam, setShowTeam] = useState(false);
+
+  // The values entered on the issue form, kept while it is hidden during a transaction
+  const [issueForm, setIssueForm] = useState(emptyIssueForm);
 
-  // Invoice form fields
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [amount, setAmount] = useState('');
-  const [currency, setCurrency] = useState('NIGHT');
+  // The wallet's balance of each token, offered as the tokens an invoice can be paid in
+  const [balances, setBalances] = useState<Readonly<Record<string, bigint>>>({});
 
-  // Form validation
-  const [titleError, setTitleError] = useState('');
-  const [amountError, setAmountError] = useState('');
+  // A payer commitment and encryption key of the current user, to hand over to an issuer together with its invoice id
+  const [payerRequest, setPayerRequest] = useState<{ invoiceId: string; commitment: string; encryptionKey: string }>();
 
   const onCreate = useCallback(() => invoiceApiProvider.resolve(), [invoiceApiProvider]);
   const onJoin = useCallback(
@@ -74,72 +78,517 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
     [invoiceApiProvider],
   );
 
-  const validateForm = useCallback(() => {
-    let isValid = true;
-
-    if (!title.trim()) {
-      setTitleError('Title is required');
-      isValid = false;
-    } else if (title.length < 3) {
-      setTitleError('Title must be at least 3 characters');
-      isValid = false;
-    } else {
-      setTitleError('');
-    }
+  const onIssueInvoice = useCallback(
+    async ({ invoiceId, amount, invoiceData, payer, dueAt, encryptionKey, asQuote }: IssueRequest) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
 
-    if (!amount) {
-      setAmountError('Amount is required');
-      isValid = false;
-    } else if (Number(amount) <= 0) {
-      setAmountError('Amount must be greater than 0');
-      isValid = false;
-    } else {
-      setAmountError('');
-    }
+      try {
+        setIsWorking(true);
+        setErrorMessage(undefined);
+        if (invoiceData.milestones) {
+          // The amount of an escrow invoice is the sum of its milestones
+          await deployedInvoiceAPI.issueEscrow(invoiceId, invoiceData, payer, dueAt, encryptionKey);
+        } else if (asQuote) {
+          // A quote can't be paid until the buyer has accepted it and it has been issued as an invoice
+          await deployedInvoiceAPI.issueQuote(invoiceId, amount, invoiceData, payer, dueAt, encryptionKey);
+        } else {
+          await deployedInvoiceAPI.issueInvoice(invoiceId, amount, invoiceData, payer, dueAt, encryptionKey);
+        }
+        setShowIssueForm(false);
+        setIssueForm(emptyIssueForm());
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
 
-    return isValid;
-  }, [title, amount]);
+  const onCloseIssueForm = useCallback(() => {
+    setShowIssueForm(false);
+    setIssueForm(emptyIssueForm());
+    setErrorMessage(undefined);
+  }, []);
 
-  const onIssueInvoice = useCallback(async () => {
-    if (!deployedInvoiceAPI) {
-      return;
-    }
+  const onPayInvoice = useCallback(
+    async (id: string, portion?: bigint) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.payInvoice(fromHex(id), portion);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onFund = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.fund(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onApproveMilestone = useCallback(
+    async (id: string, index: number) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.approveMilestone(fromHex(id), index);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onReleaseMilestone = useCallback(
+    async (id: string, index: number) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.releaseMilestone(fromHex(id), index);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onReclaimEscrow = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.reclaimEscrow(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onAcceptQuote = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.acceptQuote(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onIssueQuotedInvoice = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.issueQuotedInvoice(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onIssueCreditNote = useCallback(
+    async (id: string, amount: bigint, reason: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.issueCreditNote(fromHex(id), amount, reason);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onAssignReceivable = useCallback(
+    async (id: string, payee: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.assignReceivable(fromHex(id), payee);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onReviseInvoice = useCallback(
+    async (id: string, amount: bigint, invoiceData: InvoiceData) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.reviseInvoice(fromHex(id), amount, invoiceData);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onAcknowledgeRevision = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.acknowledgeRevision(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onResetInvoice = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.resetInvoice(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onMarkOverdue = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.markOverdue(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onCancelInvoice = useCallback(
+    async (id: string, reason: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.cancelInvoice(fromHex(id), reason);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onOpenDispute = useCallback(
+    async (id: string, reason: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.openDispute(fromHex(id), reason);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onResolveDispute = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.resolveDispute(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onRefund = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.refund(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onVerifyDocument = useCallback(
+    async (id: string, document: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        if (!(await deployedInvoiceAPI.verifyInvoiceDocument(fromHex(id), document))) {
+          setErrorMessage('The document does not match the hash recorded for this invoice');
+        }
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onJoinPayerSet = useCallback(
+    async (id: string, payerCommitments: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.joinPayerSet(fromHex(id), splitCommitments(payerCommitments).map(fromHex));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
 
-    if (!validateForm()) {
+  const onRequireApprovals = useCallback(
+    async (id: string, approverCommitments: string, threshold: number) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.requireApprovals(
+          fromHex(id),
+          splitCommitments(approverCommitments).map(fromHex),
+          threshold,
+        );
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onJoinApproverSet = useCallback(
+    async (id: string, approverCommitments: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.joinApproverSet(fromHex(id), splitCommitments(approverCommitments).map(fromHex));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onApprove = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.approve(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onCreateApproverCommitment = useCallback(
+    async (id: string): Promise<string | undefined> => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        return toHex(await deployedInvoiceAPI.createApproverCommitment(fromHex(id)));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onAddMember = useCallback(
+    async (member: string, role: Role) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.addMember(fromHex(member), role);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onRemoveMember = useCallback(
+    async (member: string, role: Role) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.removeMember(fromHex(member), role);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onPause = useCallback(async () => {
+    if (!deployedInvoiceAPI) {
       return;
     }
 
     try {
       setIsWorking(true);
-      setErrorMessage(undefined);
-      const invoiceData: InvoiceData = {
-        title: title.trim(),
-        description: description.trim(),
-        issuedAt: new Date().toISOString().split('T')[0],
-        currency,
-      };
-      await deployedInvoiceAPI.issueInvoice(BigInt(amount), invoiceData);
-      setShowIssueForm(false);
-      setTitle('');
-      setDescription('');
-      setAmount('');
-      setTitleError('');
-      setAmountError('');
+      await deployedInvoiceAPI.pause();
     } catch (error: unknown) {
       setErrorMessage(error instanceof Error ? error.message : String(error));
     } finally {
       setIsWorking(false);
     }
-  }, [deployedInvoiceAPI, title, description, amount, currency, validateForm]);
+  }, [deployedInvoiceAPI]);
 
-  const onPayInvoice = useCallback(async () => {
+  const onUnpause = useCallback(async () => {
     if (!deployedInvoiceAPI) {
       return;
     }
 
     try {
       setIsWorking(true);
-      await deployedInvoiceAPI.payInvoice();
+      await deployedInvoiceAPI.unpause();
     } catch (error: unknown) {
       setErrorMessage(error instanceof Error ? error.message : String(error));
     } finally {
@@ -147,18 +596,66 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
     }
   }, [deployedInvoiceAPI]);
 
-  const onResetInvoice = useCallback(async () => {
+  const onGetMemberCommitment = useCallback(async (): Promise<string | undefined> => {
     if (!deployedInvoiceAPI) {
       return;
     }
 
     try {
-      setIsWorking(true);
-      await deployedInvoiceAPI.resetInvoice();
+      return toHex(await deployedInvoiceAPI.getMemberCommitment());
+    } catch (error: unknown) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [deployedInvoiceAPI]);
+
+  const onExportReceipt = useCallback(
+    async (id: string) => {
+      if (!deployedInvoiceAPI) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        await deployedInvoiceAPI.exportReceipt(fromHex(id));
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onProveReceipt = useCallback(
+    async (receipt: InvoiceDerivedState['receipt']): Promise<string | undefined> => {
+      if (!deployedInvoiceAPI || !receipt) {
+        return;
+      }
+
+      try {
+        setIsWorking(true);
+        return await deployedInvoiceAPI.proveReceipt(receipt);
+      } catch (error: unknown) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [deployedInvoiceAPI],
+  );
+
+  const onCreatePayerRequest = useCallback(async () => {
+    if (!deployedInvoiceAPI) {
+      return;
+    }
+
+    try {
+      const id = utils.randomBytes(32);
+      const commitment = await deployedInvoiceAPI.createPayerCommitment(id);
+      const encryptionKey = await deployedInvoiceAPI.getEncryptionPublicKey();
+      setPayerRequest({ invoiceId: toHex(id), commitment: toHex(commitment), encryptionKey: toHex(encryptionKey) });
     } catch (error: unknown) {
       setErrorMessage(error instanceof Error ? error.message : String(error));
-    } finally {
-      setIsWorking(false);
     }
   }, [deployedInvoiceAPI]);
 
@@ -194,6 +691,18 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
     return () => subscription.unsubscribe();
   }, [deployedInvoiceAPI]);
 
+  useEffect(() => {
+    if (!showIssueForm) {
+      return;
+    }
+
+    // Balances change with every payment, so they are read afresh whenever the issue form is opened
+    invoiceApiProvider
+      .getBalances()
+      .then(setBalances)
+      .catch((error: unknown) => setErrorMessage(error instanceof Error ? error.message : String(error)));
+  }, [invoiceApiProvider, showIssueForm]);
+
   if (!invoiceDeployment$) {
     return (
       <EmptyCardContent
@@ -220,31 +729,7 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
     );
   }
 
-  const getStateColor = () => {
-    switch (invoiceState.state) {
-      case State.EMPTY:
-        return 'default';
-      case State.ISSUED:
-        return 'warning';
-      case State.PAID:
-        return 'success';
-      default:
-        return 'default';
-    }
-  };
-
-  const getStateLabel = () => {
-    switch (invoiceState.state) {
-      case State.EMPTY:
-        return 'No Invoice';
-      case State.ISSUED:
-        return 'Issued';
-      case State.PAID:
-        return 'Paid';
-      default:
-        return 'Unknown';
-    }
-  };
+  const invoices = Array.from(invoiceState.invoices.values()).sort((a, b) => Number(b.sequence - a.sequence));
 
   return (
     <>
@@ -255,278 +740,77 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
       <Card>
         <CardHeader
           avatar={<ReceiptIcon />}
-          title="Midnight Billow Invoice"
-          subheader={`Contract: ${deployedInvoiceAPI?.deployedContractAddress.slice(0, 10)}...`}
-          action={<Chip label={getStateLabel()} color={getStateColor()} />}
+          title="Midnight Billow Invoices"
+          subheader={`Next invoice: ${invoiceState.nextNumber}`}
+          action={
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Chip label={`${invoices.length} ${invoices.length === 1 ? 'invoice' : 'invoices'}`} />
+              <Tooltip title="Team">
+                <IconButton onClick={() => setShowTeam(!showTeam)} color={showTeam ? 'primary' : 'default'}>
+                  <GroupsIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          }
         />
         <CardContent>
-          {invoiceState.state === State.EMPTY && !showIssueForm && (
+          {invoiceState.paused && (
+            <Alert
+              severity="error"
+              icon={<PauseCircleIcon />}
+              action={
+                invoiceState.isAdmin && (
+                  <Button color="inherit" size="small" onClick={onUnpause} sx={{ textTransform: 'none' }}>
+                    Resume
+                  </Button>
+                )
+              }
+              sx={{ mb: 3, borderRadius: 2 }}
+            >
+              This contract has been paused by an admin. No invoice can be issued or paid until it is resumed.
+            </Alert>
+          )}
+
+          {showTeam && (
+            <TeamPanel
+              team={invoiceState.team}
+              isAdmin={invoiceState.isAdmin}
+              paused={invoiceState.paused}
+              onAddMember={onAddMember}
+              onRemoveMember={onRemoveMember}
+              onGetMemberCommitment={onGetMemberCommitment}
+              onPause={onPause}
+              onClose={() => setShowTeam(false)}
+            />
+          )}
+
+          {invoices.length === 0 && !showIssueForm && (
             <Fade in timeout={500}>
               <Box sx={{ textAlign: 'center', py: 6 }}>
                 <ReceiptIcon sx={{ fontSize: 80, color: 'text.secondary', mb: 2 }} />
                 <Typography variant="h5" color="text.primary" gutterBottom fontWeight={500}>
-                  No Active Invoice
+                  No Invoices Yet
                 </Typography>
                 <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-                  Create a new invoice to get started with ZK-powered payments
+                  {invoiceState.isIssuer
+                    ? 'Create a new invoice to get started with ZK-powered payments'
+                    : 'Invoices issued by the owner of this contract will appear here'}
                 </Typography>
-                <Button
-                  variant="contained"
-                  size="large"
-                  startIcon={<ReceiptIcon />}
-                  onClick={() => setShowIssueForm(true)}
-                  sx={{
-                    mt: 2,
-                    px: 4,
-                    py: 1.5,
-                    borderRadius: 2,
-                    textTransform: 'none',
-                    fontSize: '1rem',
-                    boxShadow: 3,
-                    '&:hover': {
-                      boxShadow: 6,
-                      transform: 'translateY(-2px)',
-                      transition: 'all 0.3s ease',
-                    },
-                  }}
-                >
-                  Issue New Invoice
-                </Button>
-              </Box>
-            </Fade>
-          )}
-
-          {invoiceState.state === State.EMPTY && showIssueForm && (
-            <Fade in timeout={500}>
-              <Paper elevation={0} sx={{ p: 3, bgcolor: 'background.default', borderRadius: 2 }}>
-                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
-                  <Typography variant="h5" fontWeight={600} color="primary">
-                    Create Invoice
-                  </Typography>
-                  <IconButton
-                    onClick={() => {
-                      setShowIssueForm(false);
-                      setTitleError('');
-                      setAmountError('');
-                      setErrorMessage(undefined);
-                    }}
-                    size="small"
-                  >
-                    <CloseIcon />
-                  </IconButton>
-                </Box>
-                
-                <Divider sx={{ mb: 3 }} />
-                
-                <Stack spacing={3}>
-                  <TextField
-                    label="Invoice Title"
-                    placeholder="e.g., Website Development Project"
-                    value={title}
-                    onChange={(e) => {
-                      setTitle(e.target.value);
-                      if (titleError) setTitleError('');
-                    }}
-                    fullWidth
-                    required
-                    error={!!titleError}
-                    helperText={titleError || 'A clear and descriptive title for this invoice'}
-                    InputProps={{
-                      startAdornment: (
-                        <InputAdornment position="start">
-                          <TitleIcon color="action" />
-                        </InputAdornment>
-                      ),
-                    }}
-                    sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 } }}
-                  />
-                  
-                  <TextField
-                    label="Description"
-                    placeholder="Add any additional details about this invoice..."
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    fullWidth
-                    multiline
-                    rows={4}
-                    InputProps={{
-                      startAdornment: (
-                        <InputAdornment position="start" sx={{ alignSelf: 'flex-start', mt: 2 }}>
-                          <DescriptionIcon color="action" />
-                        </InputAdornment>
-                      ),
-                    }}
-                    sx={{ '& .MuiOutlinedInput-root': { borderRadius: 2 } }}
-                  />
-                  
-                  <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-                    <TextField
-                      label="Amount"
-                      placeholder="0.00"
-                      value={amount}
-                      onChange={(e) => {
-                        setAmount(e.target.value);
-                        if (amountError) setAmountError('');
-                      }}
-                      type="number"
-                      required
-                      error={!!amountError}
-                      helperText={amountError || 'Enter the invoice amount'}
-                      InputProps={{
-                        startAdornment: (
-                          <InputAdornment position="start">
-                            <AttachMoneyIcon color="action" />
-                          </InputAdornment>
-                        ),
-                      }}
-                      inputProps={{ min: 0, step: 'any' }}
-                      sx={{ 
-                        flex: '1 1 65%',
-                        minWidth: '200px',
-                        '& .MuiOutlinedInput-root': { borderRadius: 2 } 
-                      }}
-                    />
-                    
-                    <TextField
-                      label="Currency"
-                      value={currency}
-                      onChange={(e) => setCurrency(e.target.value)}
-                      disabled
-                      sx={{ 
-                        flex: '1 1 30%',
-                        minWidth: '100px',
-                        '& .MuiOutlinedInput-root': { borderRadius: 2 } 
-                      }}
-                    />
-                  </Box>
-                  
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
-                    <CalendarTodayIcon fontSize="small" />
-                    <Typography variant="body2">
-                      Issue Date: {new Date().toLocaleDateString('en-US', { 
-                        year: 'numeric', 
-                        month: 'long', 
-                        day: 'numeric' 
-                      })}
-                    </Typography>
-                  </Box>
-                </Stack>
-
-                <Divider sx={{ my: 3 }} />
-
-                <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
-                  <Button
-                    variant="outlined"
-                    size="large"
-                    onClick={() => {
-                      setShowIssueForm(false);
-                      setTitle('');
-                      setDescription('');
-                      setAmount('');
-                      setTitleError('');
-                      setAmountError('');
-                      setErrorMessage(undefined);
-                    }}
-                    sx={{ borderRadius: 2, textTransform: 'none', px: 3 }}
-                  >
-                    Cancel
-                  </Button>
+                {invoiceState.isIssuer && (
                   <Button
                     variant="contained"
                     size="large"
-                    onClick={onIssueInvoice}
-                    disabled={!title.trim() || !amount || !!titleError || !!amountError}
                     startIcon={<ReceiptIcon />}
+                    disabled={invoiceState.paused}
+                    onClick={() => setShowIssueForm(true)}
                     sx={{
+                      mt: 2,
+                      px: 4,
+                      py: 1.5,
                       borderRadius: 2,
                       textTransform: 'none',
-                      px: 3,
-                      boxShadow: 2,
-                      '&:hover': {
-                        boxShadow: 4,
-                      },
-                    }}
-                  >
-                    Issue Invoice
-                  </Button>
-                </Box>
-              </Paper>
-            </Fade>
-          )}
-
-          {invoiceState.state === State.ISSUED && invoiceState.invoiceData && (
-            <Fade in timeout={500}>
-              <Box>
-                <Paper elevation={0} sx={{ p: 3, bgcolor: 'primary.50', borderRadius: 2, mb: 3 }}>
-                  <Typography variant="h4" gutterBottom fontWeight={600} color="primary.main">
-                    {invoiceState.invoiceData.title}
-                  </Typography>
-                  {invoiceState.invoiceData.description && (
-                    <Typography variant="body1" color="text.secondary" sx={{ mt: 2, lineHeight: 1.7 }}>
-                      {invoiceState.invoiceData.description}
-                    </Typography>
-                  )}
-                </Paper>
-                
-                <Paper 
-                  elevation={3} 
-                  sx={{ 
-                    p: 4, 
-                    bgcolor: 'background.paper',
-                    borderRadius: 3,
-                    border: '2px solid',
-                    borderColor: 'primary.main',
-                    textAlign: 'center',
-                    mb: 3,
-                  }}
-                >
-                  <Typography variant="overline" color="text.secondary" fontWeight={500}>
-                    Amount Due
-                  </Typography>
-                  <Typography 
-                    variant="h2" 
-                    color="primary.main" 
-                    fontWeight={700}
-                    sx={{ my: 1 }}
-                  >
-                    {invoiceState.amount.toString()}
-                  </Typography>
-                  <Chip 
-                    label={invoiceState.invoiceData.currency} 
-                    color="primary" 
-                    size="medium"
-                    sx={{ fontWeight: 600 }}
-                  />
-                  
-                  <Divider sx={{ my: 3 }} />
-                  
-                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
-                    <CalendarTodayIcon fontSize="small" color="action" />
-                    <Typography variant="body2" color="text.secondary">
-                      Issued on {new Date(invoiceState.invoiceData.issuedAt).toLocaleDateString('en-US', {
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
-                    </Typography>
-                  </Box>
-                </Paper>
-                
-                {invoiceState.canPay ? (
-                  <Button
-                    variant="contained"
-                    color="success"
-                    size="large"
-                    startIcon={<PaymentIcon />}
-                    onClick={onPayInvoice}
-                    fullWidth
-                    sx={{
-                      py: 2,
-                      borderRadius: 2,
-                      fontSize: '1.1rem',
-                      fontWeight: 600,
-                      textTransform: 'none',
-                      boxShadow: 4,
+                      fontSize: '1rem',
+                      boxShadow: 3,
                       '&:hover': {
                         boxShadow: 6,
                         transform: 'translateY(-2px)',
@@ -534,107 +818,116 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
                       },
                     }}
                   >
-                    Pay with Zero-Knowledge Proof
+                    Issue New Invoice
                   </Button>
-                ) : (
-                  <Alert 
-                    severity="warning" 
-                    sx={{ 
-                      borderRadius: 2,
-                      '& .MuiAlert-message': {
-                        width: '100%',
-                      },
-                    }}
-                  >
-                    <Typography variant="body1" fontWeight={500}>
-                      Authorization Required
-                    </Typography>
-                    <Typography variant="body2">
-                      You are not authorized to pay this invoice. Only the designated payer can complete this transaction.
-                    </Typography>
-                  </Alert>
                 )}
               </Box>
             </Fade>
           )}
 
-          {invoiceState.state === State.PAID && invoiceState.invoiceData && (
-            <Fade in timeout={500}>
-              <Box sx={{ textAlign: 'center', py: 4 }}>
-                <Box
-                  sx={{
-                    display: 'inline-flex',
-                    p: 3,
-                    borderRadius: '50%',
-                    bgcolor: 'success.light',
-                    mb: 3,
-                  }}
-                >
-                  <CheckCircleIcon color="success" sx={{ fontSize: 80 }} />
-                </Box>
-                
-                <Typography variant="h3" gutterBottom fontWeight={700} color="success.main">
-                  Payment Completed! 🎉
+          {invoices.length > 0 && invoiceState.isIssuer && !showIssueForm && (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 3 }}>
+              <Button
+                variant="contained"
+                startIcon={<ReceiptIcon />}
+                disabled={invoiceState.paused}
+                onClick={() => setShowIssueForm(true)}
+                sx={{ borderRadius: 2, textTransform: 'none', px: 3, boxShadow: 2 }}
+              >
+                Issue New Invoice
+              </Button>
+            </Box>
+          )}
+
+          {invoiceState.isIssuer && showIssueForm && (
+            <IssueForm
+              values={issueForm}
+              invoices={invoiceState.invoices}
+              balances={balances}
+              onChange={setIssueForm}
+              onIssue={(request) => void onIssueInvoice(request)}
+              onClose={onCloseIssueForm}
+            />
+          )}
+
+          <Stack spacing={3}>
+            {invoices.map((invoice) => (
+              <InvoiceItem
+                key={invoice.id}
+                invoice={invoice}
+                onPay={(portion) => onPayInvoice(invoice.id, portion)}
+                onAcceptQuote={() => onAcceptQuote(invoice.id)}
+                onIssueQuotedInvoice={() => onIssueQuotedInvoice(invoice.id)}
+                onFund={() => onFund(invoice.id)}
+                onApproveMilestone={(index) => onApproveMilestone(invoice.id, index)}
+                onReleaseMilestone={(index) => onReleaseMilestone(invoice.id, index)}
+                onReclaimEscrow={() => onReclaimEscrow(invoice.id)}
+                onMarkOverdue={() => onMarkOverdue(invoice.id)}
+                onCancel={(reason) => onCancelInvoice(invoice.id, reason)}
+                onIssueCreditNote={(amount, reason) => onIssueCreditNote(invoice.id, amount, reason)}
+                onAssignReceivable={(payee) => onAssignReceivable(invoice.id, payee)}
+                onRevise={(amount, invoiceData) => onReviseInvoice(invoice.id, amount, invoiceData)}
+                onAcknowledgeRevision={() => onAcknowledgeRevision(invoice.id)}
+                onOpenDispute={(reason) => onOpenDispute(invoice.id, reason)}
+                onResolveDispute={() => onResolveDispute(invoice.id)}
+                onRefund={() => onRefund(invoice.id)}
+                onVerifyDocument={(document) => onVerifyDocument(invoice.id, document)}
+                onJoinPayerSet={(payerCommitments) => onJoinPayerSet(invoice.id, payerCommitments)}
+                onRequireApprovals={(approverCommitments, threshold) =>
+                  onRequireApprovals(invoice.id, approverCommitments, threshold)
+                }
+                onJoinApproverSet={(approverCommitments) => onJoinApproverSet(invoice.id, approverCommitments)}
+                onApprove={() => onApprove(invoice.id)}
+                onCreateApproverCommitment={() => onCreateApproverCommitment(invoice.id)}
+                onExportReceipt={() => onExportReceipt(invoice.id)}
+                onProveReceipt={() => onProveReceipt(invoice.receipt)}
+                onReset={() => onResetInvoice(invoice.id)}
+              />
+            ))}
+          </Stack>
+
+          <Paper elevation={0} sx={{ mt: 4, p: 2, bgcolor: 'background.default', borderRadius: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <KeyIcon fontSize="small" color="action" />
+                <Typography variant="body2" color="text.secondary">
+                  Expecting an invoice? Send an invoice ID, payer commitment and encryption key to the issuer
+                </Typography>
+              </Box>
+              <Button size="small" onClick={onCreatePayerRequest} sx={{ textTransform: 'none' }}>
+                Create
+              </Button>
+            </Box>
+            {payerRequest && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="overline" color="text.secondary" display="block">
+                  Invoice ID
                 </Typography>
-                
-                <Typography variant="h6" color="text.secondary" sx={{ mb: 4, maxWidth: 500, mx: 'auto' }}>
-                  The invoice <strong>"{invoiceState.invoiceData.title}"</strong> has been successfully paid using zero-knowledge proof technology
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {payerRequest.invoiceId}
+                </Typography>
+                <Typography variant="overline" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  Payer Commitment
+                </Typography>
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {payerRequest.commitment}
+                </Typography>
+                <Typography variant="overline" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  Encryption Key
+                </Typography>
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {payerRequest.encryptionKey}
                 </Typography>
-                
-                <Paper
-                  elevation={2}
-                  sx={{
-                    p: 3,
-                    maxWidth: 400,
-                    mx: 'auto',
-                    mb: 4,
-                    bgcolor: 'background.paper',
-                    borderRadius: 2,
-                  }}
-                >
-                  <Typography variant="overline" color="text.secondary" display="block" gutterBottom>
-                    Payment Amount
-                  </Typography>
-                  <Typography variant="h4" color="primary.main" fontWeight={600}>
-                    {invoiceState.amount.toString()} {invoiceState.invoiceData.currency}
-                  </Typography>
-                  
-                  <Divider sx={{ my: 2 }} />
-                  
-                  <Typography variant="body2" color="text.secondary">
-                    Transaction verified with ZK proof
-                  </Typography>
-                </Paper>
-                
-                <Button
-                  variant="contained"
-                  size="large"
-                  onClick={onResetInvoice}
-                  startIcon={<ReceiptIcon />}
-                  sx={{
-                    px: 4,
-                    py: 1.5,
-                    borderRadius: 2,
-                    textTransform: 'none',
-                    fontSize: '1rem',
-                    boxShadow: 2,
-                    '&:hover': {
-                      boxShadow: 4,
-                    },
-                  }}
-                >
-                  Issue New Invoice
-                </Button>
               </Box>
-            </Fade>
-          )}
+            )}
+          </Paper>
 
           {errorMessage && (
             <Fade in timeout={300}>
-              <Alert 
-                severity="error" 
+              <Alert
+                severity="error"
                 onClose={() => setErrorMessage(undefined)}
-                sx={{ 
+                sx={{
                   mt: 3,
                   borderRadius: 2,
                   '& .MuiAlert-message': {
@@ -645,9 +938,7 @@ export const InvoiceBoard: React.FC<Readonly<InvoiceBoardProps>> = ({ invoiceDep
                 <Typography variant="body1" fontWeight={600} gutterBottom>
                   Error
                 </Typography>
-                <Typography variant="body2">
-                  {errorMessage}
-                </Typography>
+                <Typography variant="body2">{errorMessage}</Typography>
               </Alert>
             </Fade>
           )}
@@ -0,0 +1,12 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { nativeToken } from '@midnight-ntwrk/ledger';
+
+/** Splits a list of hex-encoded commitments separated by whitespace or commas. */
+export const splitCommitments = (commitments: string): string[] => commitments.split(/[\s,]+/).filter(Boolean);
+
+/** The name a token is shown by: `NIGHT` for the native token, and the end of its token type otherwise. */
+export const tokenLabel = (tokenType: string): string =>
+  tokenType === nativeToken() ? 'NIGHT' : `…${tokenType.slice(-8)}`;
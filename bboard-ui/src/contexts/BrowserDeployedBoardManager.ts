@@ -52,7 +52,8 @@ import {
   type UnbalancedTransaction,
   createBalancedTx,
 } from '@midnight-ntwrk/midnight-js-types';
-import { type CoinInfo, Transaction, type TransactionId } from '@midnight-ntwrk/ledger';
+import { type CoinInfo, type TokenType, Transaction, type TransactionId } from '@midnight-ntwrk/ledger';
+import { type WalletState } from '@midnight-ntwrk/wallet-api';
 import { Transaction as ZswapTransaction } from '@midnight-ntwrk/zswap';
 import semver from 'semver';
 import { getLedgerNetworkId, getZswapNetworkId } from '@midnight-ntwrk/midnight-js-network-id';
@@ -118,6 +119,17 @@ export interface DeployedInvoiceAPIProvider {
    * contract; otherwise it will attempt to deploy a new one.
    */
   readonly resolve: (contractAddress?: ContractAddress) => Observable<InvoiceDeployment>;
+
+  /**
+   * Gets the balances of the connected wallet.
+   *
+   * @returns The balance of each token the wallet holds, keyed by its `TokenType`.
+   *
+   * @remarks
+   * The wallet connector API doesn't promise balances, so a wallet that doesn't report them yields no
+   * balances at all.
+   */
+  readonly getBalances: () => Promise<Readonly<Record<TokenType, bigint>>>;
 }
 
 /**
@@ -130,6 +142,7 @@ export interface DeployedInvoiceAPIProvider {
 export class BrowserDeployedInvoiceManager implements DeployedInvoiceAPIProvider {
   readonly #invoiceDeploymentsSubject: BehaviorSubject<Array<BehaviorSubject<InvoiceDeployment>>>;
   #initializedProviders: Promise<InvoiceProviders> | undefined;
+  #connection: Promise<{ wallet: DAppConnectorWalletAPI; uris: ServiceUriConfig }> | undefined;
 
   /**
    * Initializes a new {@link BrowserDeployedInvoiceManager} instance.
@@ -171,6 +184,18 @@ export class BrowserDeployedInvoiceManager implements DeployedInvoiceAPIProvider
     return deployment;
   }
 
+  /** @inheritdoc */
+  async getBalances(): Promise<Readonly<Record<TokenType, bigint>>> {
+    const { wallet } = await this.getConnection();
+    const walletState = (await wallet.state()) as Partial<Pick<WalletState, 'balances'>>;
+    return walletState.balances ?? {};
+  }
+
+  private getConnection(): Promise<{ wallet: DAppConnectorWalletAPI; uris: ServiceUriConfig }> {
+    // Cached like the providers below, so that the wallet is only asked to connect once
+    return this.#connection ?? (this.#connection = connectToWallet(this.logger));
+  }
+
   private getProviders(): Promise<InvoiceProviders> {
     // We use a cached `Promise` to hold the providers. This will:
     //
@@ -178,7 +203,10 @@ export class BrowserDeployedInvoiceManager implements DeployedInvoiceAPIProvider
     // 2. Act as a synchronization point if multiple contract deploys or joins run concurrently.
     //    Concurrent calls to `getProviders()` will receive, and ultimately await, the same
     //    `Promise`.
-    return this.#initializedProviders ?? (this.#initializedProviders = initializeProviders(this.logger));
+    return (
+      this.#initializedProviders ??
+      (this.#initializedProviders = this.getConnection().then(({ wallet, uris }) => initializeProviders(wallet, uris)))
+    );
   }
 
   private async deployDeployment(deployment: BehaviorSubject<InvoiceDeployment>): Promise<void> {
@@ -220,8 +248,10 @@ export class BrowserDeployedInvoiceManager implements DeployedInvoiceAPIProvider
 }
 
 /** @internal */
-const initializeProviders = async (logger: Logger): Promise<InvoiceProviders> => {
-  const { wallet, uris } = await connectToWallet(logger);
+const initializeProviders = async (
+  wallet: DAppConnectorWalletAPI,
+  uris: ServiceUriConfig,
+): Promise<InvoiceProviders> => {
   const walletState = await wallet.state();
   const zkConfigPath = window.location.origin; // '../../../contract/src/managed/invoice';
 
@@ -0,0 +1,687 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  type CircuitContext,
+  type MerkleTreeDigest,
+  type MerkleTreePath,
+  QueryContext,
+  sampleContractAddress,
+  constructorContext,
+} from "@midnight-ntwrk/compact-runtime";
+import {
+  Contract,
+  type CoinInfo,
+  type Ledger,
+  type Maybe,
+  type PayeeShare,
+  type PaymentTerms,
+  type Receipt,
+  type Role,
+  ledger,
+} from "../managed/invoice/contract/index.cjs";
+import {
+  type InvoicePrivateState,
+  createInvoicePrivateState,
+  milestoneTable,
+  payeeSplitTable,
+  witnesses,
+} from "../witnesses.js";
+import { nativeTokenType } from "./utils.js";
+
+// Invoices that aren't split still hand the contract a full, unused table
+const noSplits: Maybe<PayeeShare[]> = {
+  is_some: false,
+  value: payeeSplitTable([]),
+};
+
+// Invoices without a discount or late fee hand the contract terms of zeros
+const noTerms: PaymentTerms = { discount: 0n, discountUntil: 0n, lateFee: 0n };
+
+/**
+ * Serves as a testbed to exercise the invoice contract in tests
+ */
+export class InvoiceSimulator {
+  readonly contract: Contract<InvoicePrivateState>;
+  circuitContext: CircuitContext<InvoicePrivateState>;
+
+  constructor(secretKey: Uint8Array) {
+    this.contract = new Contract<InvoicePrivateState>(witnesses);
+    const {
+      currentPrivateState,
+      currentContractState,
+      currentZswapLocalState,
+    } = this.contract.initialState(
+      constructorContext(createInvoicePrivateState(secretKey), "0".repeat(64)),
+    );
+    this.circuitContext = {
+      currentPrivateState,
+      currentZswapLocalState,
+      originalState: currentContractState,
+      transactionContext: new QueryContext(
+        currentContractState.data,
+        sampleContractAddress(),
+      ),
+    };
+  }
+
+  /***
+   * Switch to a different secret key for a different user
+   */
+  public switchUser(secretKey: Uint8Array) {
+    this.circuitContext.currentPrivateState =
+      createInvoicePrivateState(secretKey);
+  }
+
+  /***
+   * Set the block time, in seconds since the UNIX epoch, seen by subsequent circuit calls
+   */
+  public setBlockTime(secondsSinceEpoch: bigint) {
+    this.circuitContext.transactionContext.block = {
+      ...this.circuitContext.transactionContext.block,
+      secondsSinceEpoch,
+    };
+  }
+
+  /***
+   * Hand the current user the path to their commitment in the payer set of an invoice
+   */
+  public addPayerPath(invoiceId: Uint8Array, path: MerkleTreePath<Uint8Array>) {
+    const privateState = this.circuitContext.currentPrivateState;
+    this.circuitContext.currentPrivateState = {
+      ...privateState,
+      payerPaths: {
+        ...privateState.payerPaths,
+        [Buffer.from(invoiceId).toString("hex")]: path,
+      },
+    };
+  }
+
+  /***
+   * Hand the current user the path to their commitment in the approver set of an invoice
+   */
+  public addApproverPath(
+    invoiceId: Uint8Array,
+    path: MerkleTreePath<Uint8Array>,
+  ) {
+    const privateState = this.circuitContext.currentPrivateState;
+    this.circuitContext.currentPrivateState = {
+      ...privateState,
+      approverPaths: {
+        ...privateState.approverPaths,
+        [Buffer.from(invoiceId).toString("hex")]: path,
+      },
+    };
+  }
+
+  /***
+   * An invoice number that hasn't been used yet, made from the sequence the next invoice will be issued under
+   */
+  private nextInvoiceNumber(): string {
+    return `INV-${this.getLedger().sequence.toString().padStart(4, "0")}`;
+  }
+
+  public getLedger(): Ledger {
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public getPrivateState(): InvoicePrivateState {
+    return this.circuitContext.currentPrivateState;
+  }
+
+  public issueInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+    encryptedDoc: Maybe<string> = { is_some: false, value: "" },
+  ): Ledger {
+    // Update the current context to be the result of executing the circuit.
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      encryptedDoc,
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueNumberedInvoice(
+    invoiceId: Uint8Array,
+    invoiceNumber: string,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      invoiceNumber,
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueQuote(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueQuote(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public acceptQuote(invoiceId: Uint8Array, docHash: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.acceptQuote(
+      this.circuitContext,
+      invoiceId,
+      docHash,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueQuotedInvoice(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueQuotedInvoice(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueTokenInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    tokenType: Uint8Array,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      tokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueInvoiceWithTerms(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+    terms: PaymentTerms,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      terms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueSplitInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    shares: PayeeShare[],
+    dueAt: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      {
+        is_some: true,
+        value: [...shares, ...noSplits.value.slice(shares.length)],
+      },
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueInvoiceToPayers(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payersRoot: MerkleTreeDigest,
+    dueAt: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueInvoice(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      new Uint8Array(32),
+      { is_some: true, value: payersRoot },
+      noSplits,
+      dueAt,
+      noTerms,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public createSubscription(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+    period: bigint,
+    count: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.createSubscription(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      noSplits,
+      dueAt,
+      noTerms,
+      period,
+      count,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public cancelSubscription(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.cancelSubscription(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueEscrow(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    payerCommitment: Uint8Array,
+    dueAt: bigint,
+    milestoneAmounts: bigint[],
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueEscrow(
+      this.circuitContext,
+      invoiceId,
+      this.nextInvoiceNumber(),
+      amount,
+      nativeTokenType,
+      docHash,
+      { is_some: false, value: "" },
+      payerCommitment,
+      { is_some: false, value: { field: 0n } },
+      dueAt,
+      milestoneTable(milestoneAmounts),
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public fund(invoiceId: Uint8Array, coin: CoinInfo): Ledger {
+    this.circuitContext = this.contract.impureCircuits.fund(
+      this.circuitContext,
+      invoiceId,
+      coin,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public approveMilestone(invoiceId: Uint8Array, index: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.approveMilestone(
+      this.circuitContext,
+      invoiceId,
+      index,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public releaseMilestone(invoiceId: Uint8Array, index: bigint): Ledger {
+    this.circuitContext = this.contract.impureCircuits.releaseMilestone(
+      this.circuitContext,
+      invoiceId,
+      index,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public reclaimEscrow(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.reclaimEscrow(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  // Without discount or late fee terms, the coin pays off its own value
+  public payInvoice(
+    invoiceId: Uint8Array,
+    coin: CoinInfo,
+    portion: bigint = coin.value,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.payInvoice(
+      this.circuitContext,
+      invoiceId,
+      portion,
+      coin,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public markOverdue(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.markOverdue(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public cancelInvoice(invoiceId: Uint8Array, reason: string): Ledger {
+    this.circuitContext = this.contract.impureCircuits.cancelInvoice(
+      this.circuitContext,
+      invoiceId,
+      reason,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public assignReceivable(invoiceId: Uint8Array, newPayee: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.assignReceivable(
+      this.circuitContext,
+      invoiceId,
+      { bytes: newPayee },
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public reviseInvoice(
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.reviseInvoice(
+      this.circuitContext,
+      invoiceId,
+      amount,
+      docHash,
+      { is_some: false, value: "" },
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public acknowledgeRevision(
+    invoiceId: Uint8Array,
+    docHash: Uint8Array,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.acknowledgeRevision(
+      this.circuitContext,
+      invoiceId,
+      docHash,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public requireApprovals(
+    invoiceId: Uint8Array,
+    approversRoot: MerkleTreeDigest,
+    threshold: bigint,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.requireApprovals(
+      this.circuitContext,
+      invoiceId,
+      approversRoot,
+      threshold,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public approve(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.approve(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public issueCreditNote(
+    creditNoteId: Uint8Array,
+    invoiceId: Uint8Array,
+    amount: bigint,
+    docHash: Uint8Array,
+    reason: string,
+  ): Ledger {
+    this.circuitContext = this.contract.impureCircuits.issueCreditNote(
+      this.circuitContext,
+      creditNoteId,
+      invoiceId,
+      amount,
+      docHash,
+      reason,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public openDispute(invoiceId: Uint8Array, reason: string): Ledger {
+    this.circuitContext = this.contract.impureCircuits.openDispute(
+      this.circuitContext,
+      invoiceId,
+      reason,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public resolveDispute(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.resolveDispute(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public refund(invoiceId: Uint8Array, coin: CoinInfo): Ledger {
+    this.circuitContext = this.contract.impureCircuits.refund(
+      this.circuitContext,
+      invoiceId,
+      coin,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public proveReceipt(receipt: Receipt): Receipt {
+    const { context, result } = this.contract.impureCircuits.proveReceipt(
+      this.circuitContext,
+      receipt,
+    );
+    this.circuitContext = context;
+    return result;
+  }
+
+  public resetInvoice(invoiceId: Uint8Array): Ledger {
+    this.circuitContext = this.contract.impureCircuits.resetInvoice(
+      this.circuitContext,
+      invoiceId,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public addMember(memberKey: Uint8Array, role: Role): Ledger {
+    this.circuitContext = this.contract.impureCircuits.addMember(
+      this.circuitContext,
+      memberKey,
+      role,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public removeMember(memberKey: Uint8Array, role: Role): Ledger {
+    this.circuitContext = this.contract.impureCircuits.removeMember(
+      this.circuitContext,
+      memberKey,
+      role,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public pause(): Ledger {
+    this.circuitContext = this.contract.impureCircuits.pause(
+      this.circuitContext,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  public unpause(): Ledger {
+    this.circuitContext = this.contract.impureCircuits.unpause(
+      this.circuitContext,
+    ).context;
+    return ledger(this.circuitContext.transactionContext.state);
+  }
+
+  /**
+   * The team member key of the current user, as recorded by the constructor for the deployer.
+   */
+  public issuerKey(): Uint8Array {
+    const { memberKey, secretKey } = this.getPrivateState();
+    return this.contract.circuits.issuerKey(
+      this.circuitContext,
+      memberKey ?? secretKey,
+    ).result;
+  }
+
+  /**
+   * The payer commitment of the current user for the given invoice id.
+   */
+  public payerCommitment(invoiceId: Uint8Array): Uint8Array {
+    return this.contract.circuits.buyerKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      invoiceId,
+    ).result;
+  }
+
+  /**
+   * The approver commitment of the current user for the given invoice id.
+   */
+  public approverCommitment(invoiceId: Uint8Array): Uint8Array {
+    return this.contract.circuits.approverKey(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      invoiceId,
+    ).result;
+  }
+
+  /**
+   * The payment nullifier of the current user for the given invoice.
+   */
+  public paymentNullifier(invoiceId: Uint8Array, sequence: bigint): Uint8Array {
+    return this.contract.circuits.paymentNullifier(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      invoiceId,
+      sequence,
+    ).result;
+  }
+
+  /**
+   * The key the given assignment of an invoice is recorded under.
+   */
+  public assignmentKey(
+    invoiceId: Uint8Array,
+    sequence: bigint,
+    index: bigint,
+  ): Uint8Array {
+    return this.contract.circuits.assignmentKey(
+      this.circuitContext,
+      invoiceId,
+      sequence,
+      index,
+    ).result;
+  }
+
+  /**
+   * The receipt commitment of the current user for the given receipt.
+   */
+  public receiptCommitment(receipt: Receipt): Uint8Array {
+    return this.contract.circuits.receiptCommitment(
+      this.circuitContext,
+      this.getPrivateState().secretKey,
+      receipt,
+    ).result;
+  }
+}
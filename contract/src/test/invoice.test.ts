@@ -0,0 +1,2006 @@
+// This file is part of Midnight Billow - ZK Invoice Payment System
+// Copyright (C) 2025 Midnight Foundation
+// SPDX-License-Identifier: Apache-2.0
+// Licensed under the Apache License, Version 2.0 (the "License");
+// You may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { InvoiceSimulator } from "./invoice-simulator.js";
+import {
+  NetworkId,
+  setNetworkId,
+} from "@midnight-ntwrk/midnight-js-network-id";
+import {
+  CompactTypeOpaqueString,
+  persistentHash,
+} from "@midnight-ntwrk/compact-runtime";
+import { describe, it, expect } from "vitest";
+import { nativeCoin, randomBytes, tokenCoin } from "./utils.js";
+import { Role, State } from "../managed/invoice/contract/index.cjs";
+import { payerSetPath, payerSetRoot } from "../witnesses.js";
+
+setNetworkId(NetworkId.Undeployed);
+
+// 2030-01-01T00:00:00Z, comfortably after the simulator's block time
+const dueAt = 1893456000n;
+
+const invoiceJson = JSON.stringify({
+  title: "Website Development Project",
+  description: "Landing page and CMS integration",
+  issuedAt: "2025-03-01",
+  currency: "NIGHT",
+});
+
+// Only the hash of the invoice document goes on-chain
+const docHash = persistentHash(new CompactTypeOpaqueString(), invoiceJson);
+
+describe("Invoice smart contract", () => {
+  it("properly initializes ledger state", () => {
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    const ledgerState = simulator.getLedger();
+    expect(ledgerState.sequence).toEqual(1n);
+    expect(ledgerState.invoices.isEmpty()).toEqual(true);
+    expect(ledgerState.team.lookup(simulator.issuerKey())).toEqual({
+      admin: true,
+      issuer: true,
+      canceller: true,
+    });
+    expect(ledgerState.admins).toEqual(1n);
+  });
+
+  it("only lets the deployer issue invoices", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.switchUser(randomBytes(32));
+    expect(() =>
+      simulator.issueInvoice(
+        invoiceId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Only the issuer can issue invoices");
+  });
+
+  it("records the payer commitment supplied by the issuer", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    const ledgerState = simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      payerCommitment,
+      dueAt,
+    );
+    expect(ledgerState.sequence).toEqual(2n);
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.ISSUED);
+    expect(invoice.sequence).toEqual(2n);
+    expect(invoice.amount).toEqual(1000n);
+    expect(invoice.paidAmount).toEqual(0n);
+    expect(invoice.dueAt).toEqual(dueAt);
+    expect(invoice.paidLate).toEqual(false);
+    expect(invoice.buyerPk).toEqual(payerCommitment);
+    expect(invoice.docHash).toEqual(docHash);
+    expect(invoice.encryptedDoc.is_some).toEqual(false);
+  });
+
+  it("records a document encrypted for the buyer", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    const ledgerState = simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+      { is_some: true, value: "ciphertext" },
+    );
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.docHash).toEqual(docHash);
+    expect(invoice.encryptedDoc).toEqual({
+      is_some: true,
+      value: "ciphertext",
+    });
+  });
+
+  it("lets the buyer named by the issuer pay from a different wallet", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(1000n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("doesn't let the issuer pay an invoice issued to someone else", () => {
+    const issuerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(randomBytes(32));
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+  });
+
+  it("doesn't accept a commitment made for a different invoice", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const otherCommitment = simulator.payerCommitment(randomBytes(32));
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, otherCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+  });
+
+  it("forwards the payment to the issuer's coin public key", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    const payee = simulator.getLedger().invoices.lookup(invoiceId).payee;
+    // The simulator runs every user under the all-zero coin public key.
+    expect(payee.bytes).toEqual(new Uint8Array(32));
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    const outputs = simulator.circuitContext.currentZswapLocalState.outputs;
+    const sent = outputs.find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(1000n);
+    expect(sent?.recipient.left).toEqual(payee);
+  });
+
+  it("splits a payment between the payees by their shares", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const payees = [randomBytes(32), randomBytes(32), randomBytes(32)];
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    const shares = [5000n, 3000n, 2000n].map((share, index) => ({
+      payee: { bytes: payees[index] },
+      share,
+    }));
+    const invoice = simulator
+      .issueSplitInvoice(
+        invoiceId,
+        1001n,
+        docHash,
+        payerCommitment,
+        shares,
+        dueAt,
+      )
+      .invoices.lookup(invoiceId);
+    expect(invoice.splits.is_some).toEqual(true);
+    expect(invoice.splits.value.slice(0, 3)).toEqual(shares);
+    expect(invoice.splits.value[3].share).toEqual(0n);
+    simulator.switchUser(buyerKey);
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    simulator.payInvoice(invoiceId, nativeCoin(1001n));
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .filter(({ recipient }) => recipient.is_left)
+      .map(({ coinInfo, recipient }) => [recipient.left.bytes, coinInfo.value]);
+    // Shares are rounded down, and the first payee takes the remainder.
+    expect(sent).toEqual([
+      [payees[0], 501n],
+      [payees[1], 300n],
+      [payees[2], 200n],
+    ]);
+    expect(simulator.getLedger().invoices.lookup(invoiceId).state).toEqual(
+      State.PAID,
+    );
+  });
+
+  it("rejects payee shares that don't add up to 100%", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    expect(() =>
+      simulator.issueSplitInvoice(
+        invoiceId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        [
+          { payee: { bytes: randomBytes(32) }, share: 5000n },
+          { payee: { bytes: randomBytes(32) }, share: 4000n },
+        ],
+        dueAt,
+      ),
+    ).toThrow("failed assert: Payee shares must add up to 100%");
+  });
+
+  it("accepts installments until the invoice is fully paid", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    let invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(400n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PARTIALLY_PAID);
+    expect(invoice.paidAmount).toEqual(400n);
+    invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(350n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PARTIALLY_PAID);
+    expect(invoice.paidAmount).toEqual(750n);
+    invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(250n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PAID);
+    expect(invoice.paidAmount).toEqual(1000n);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1n))).toThrow(
+      "failed assert: No active invoice to pay",
+    );
+  });
+
+  it("rejects a payment above the outstanding amount", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1001n))).toThrow(
+      "failed assert: Payment exceeds the outstanding amount",
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(600n));
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(401n))).toThrow(
+      "failed assert: Payment exceeds the outstanding amount",
+    );
+  });
+
+  it("rejects an empty payment", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(0n))).toThrow(
+      "failed assert: Payment must not be empty",
+    );
+  });
+
+  it("rejects a payment in a token other than the native token", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(() =>
+      simulator.payInvoice(invoiceId, {
+        ...nativeCoin(1000n),
+        color: randomBytes(32),
+      }),
+    ).toThrow("failed assert: Payment is not in the token of the invoice");
+  });
+
+  it("takes payments in the token the invoice was issued in", () => {
+    const invoiceId = randomBytes(32);
+    const tokenType = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueTokenInvoice(
+      invoiceId,
+      1000n,
+      tokenType,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(simulator.getLedger().invoices.lookup(invoiceId).tokenType).toEqual(
+      tokenType,
+    );
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Payment is not in the token of the invoice",
+    );
+    const ledgerState = simulator.payInvoice(
+      invoiceId,
+      tokenCoin(tokenType, 1000n),
+    );
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.PAID);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs.filter(
+      ({ recipient }) => recipient.is_left,
+    );
+    expect(sent.map(({ coinInfo }) => coinInfo.color)).toEqual([tokenType]);
+  });
+
+  it("doesn't accept a due date that has already passed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt);
+    expect(() =>
+      simulator.issueInvoice(
+        invoiceId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Due date must be in the future");
+  });
+
+  it("marks an unpaid invoice overdue once its due date has passed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.setBlockTime(dueAt);
+    expect(() => simulator.markOverdue(invoiceId)).toThrow(
+      "failed assert: Invoice is not yet due",
+    );
+    simulator.setBlockTime(dueAt + 1n);
+    expect(
+      simulator.markOverdue(invoiceId).invoices.lookup(invoiceId).state,
+    ).toEqual(State.OVERDUE);
+    expect(() => simulator.markOverdue(invoiceId)).toThrow(
+      "failed assert: Only an unpaid invoice can become overdue",
+    );
+  });
+
+  it("records a payment made after the due date as late", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(simulator.getLedger().invoices.lookup(invoiceId).paidLate).toEqual(
+      false,
+    );
+    simulator.setBlockTime(dueAt + 1n);
+    simulator.markOverdue(invoiceId);
+    let invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(100n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.OVERDUE);
+    expect(invoice.paidLate).toEqual(true);
+    invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(500n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PAID);
+    expect(invoice.paidLate).toEqual(true);
+  });
+
+  it("takes an early-payment discount within the discount period", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    // 2/10 net 30: 2% off when paid by the end of the discount period
+    simulator.issueInvoiceWithTerms(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+      { discount: 200n, discountUntil: dueAt - 500n, lateFee: 150n },
+    );
+    expect(() =>
+      simulator.payInvoice(invoiceId, nativeCoin(1000n), 1000n),
+    ).toThrow("failed assert: Payment does not match the amount due now");
+    const invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(980n), 1000n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PAID);
+    expect(invoice.paidAmount).toEqual(1000n);
+    const outputs = simulator.circuitContext.currentZswapLocalState.outputs;
+    const sent = outputs.find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(980n);
+  });
+
+  it("charges a late fee on payments after the due date", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoiceWithTerms(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+      { discount: 200n, discountUntil: dueAt - 500n, lateFee: 150n },
+    );
+    // Past the discount period but before the due date, the amount is due as is
+    simulator.setBlockTime(dueAt - 100n);
+    simulator.payInvoice(invoiceId, nativeCoin(200n), 200n);
+    simulator.setBlockTime(dueAt + 1n);
+    expect(() =>
+      simulator.payInvoice(invoiceId, nativeCoin(400n), 400n),
+    ).toThrow("failed assert: Payment does not match the amount due now");
+    let invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(406n), 400n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.paidAmount).toEqual(600n);
+    expect(invoice.paidLate).toEqual(true);
+    invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(406n), 400n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.PAID);
+  });
+
+  it("rejects discount terms that don't fit the invoice", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    expect(() =>
+      simulator.issueInvoiceWithTerms(
+        invoiceId,
+        1000n,
+        docHash,
+        payerCommitment,
+        dueAt,
+        { discount: 10000n, discountUntil: dueAt, lateFee: 0n },
+      ),
+    ).toThrow("failed assert: Discount must be less than 100%");
+    expect(() =>
+      simulator.issueInvoiceWithTerms(
+        invoiceId,
+        1000n,
+        docHash,
+        payerCommitment,
+        dueAt,
+        { discount: 200n, discountUntil: dueAt - 2000n, lateFee: 0n },
+      ),
+    ).toThrow("failed assert: Discount period must end in the future");
+    expect(() =>
+      simulator.issueInvoiceWithTerms(
+        invoiceId,
+        1000n,
+        docHash,
+        payerCommitment,
+        dueAt,
+        { discount: 200n, discountUntil: dueAt + 1n, lateFee: 0n },
+      ),
+    ).toThrow("failed assert: Discount period must end by the due date");
+  });
+
+  it("holds several invoices at once", () => {
+    const buyerKey = randomBytes(32);
+    const firstId = randomBytes(32);
+    const secondId = randomBytes(32);
+    const simulator = new InvoiceSimulator(buyerKey);
+    simulator.issueInvoice(
+      firstId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(firstId),
+      dueAt,
+    );
+    simulator.issueInvoice(
+      secondId,
+      500n,
+      docHash,
+      simulator.payerCommitment(secondId),
+      dueAt,
+    );
+    const ledgerState = simulator.payInvoice(secondId, nativeCoin(500n));
+    expect(ledgerState.invoices.size()).toEqual(2n);
+    expect(ledgerState.invoices.lookup(firstId).state).toEqual(State.ISSUED);
+    expect(ledgerState.invoices.lookup(firstId).sequence).toEqual(2n);
+    expect(ledgerState.invoices.lookup(secondId).state).toEqual(State.PAID);
+    expect(ledgerState.invoices.lookup(secondId).sequence).toEqual(3n);
+  });
+
+  it("doesn't let an invoice id be issued twice", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    expect(() =>
+      simulator.issueInvoice(invoiceId, 500n, docHash, payerCommitment, dueAt),
+    ).toThrow("failed assert: Invoice already issued");
+  });
+
+  it("records the invoice number on the invoice", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    const ledgerState = simulator.issueNumberedInvoice(
+      invoiceId,
+      "INV-2026-0001",
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(ledgerState.invoices.lookup(invoiceId).number).toEqual(
+      "INV-2026-0001",
+    );
+    expect(ledgerState.invoiceNumbers.member("INV-2026-0001")).toEqual(true);
+  });
+
+  it("doesn't let an invoice number be used twice, even once removed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueNumberedInvoice(
+      invoiceId,
+      "INV-2026-0001",
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const otherId = randomBytes(32);
+    expect(() =>
+      simulator.issueNumberedInvoice(
+        otherId,
+        "INV-2026-0001",
+        1000n,
+        docHash,
+        simulator.payerCommitment(otherId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Invoice number already used");
+
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.resetInvoice(invoiceId);
+    expect(() =>
+      simulator.issueNumberedInvoice(
+        otherId,
+        "INV-2026-0001",
+        1000n,
+        docHash,
+        simulator.payerCommitment(otherId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Invoice number already used");
+  });
+
+  it("doesn't let an unknown invoice be paid", () => {
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    expect(() =>
+      simulator.payInvoice(randomBytes(32), nativeCoin(1000n)),
+    ).toThrow("failed assert: No such invoice");
+  });
+
+  it("lets a paid invoice be removed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(() => simulator.resetInvoice(invoiceId)).toThrow(
+      "failed assert: Can only reset a paid, cancelled or refunded invoice",
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    const ledgerState = simulator.resetInvoice(invoiceId);
+    expect(ledgerState.invoices.member(invoiceId)).toEqual(false);
+  });
+
+  it("lets a cancelled invoice be removed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.cancelInvoice(invoiceId, "Issued twice");
+    const ledgerState = simulator.resetInvoice(invoiceId);
+    expect(ledgerState.invoices.member(invoiceId)).toEqual(false);
+  });
+
+  it("lets a refunded invoice be removed", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.openDispute(invoiceId, "Not delivered");
+    simulator.refund(invoiceId, nativeCoin(1000n));
+    const ledgerState = simulator.resetInvoice(invoiceId);
+    expect(ledgerState.invoices.member(invoiceId)).toEqual(false);
+  });
+
+  it("only lets the issuer remove an invoice", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    expect(() => simulator.resetInvoice(invoiceId)).toThrow(
+      "failed assert: Only the issuer can reset invoices",
+    );
+  });
+
+  it("only takes payment for a quote once the buyer has accepted it", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    const quote = simulator
+      .issueQuote(invoiceId, 1000n, docHash, payerCommitment, dueAt)
+      .invoices.lookup(invoiceId);
+    expect(quote.state).toEqual(State.QUOTED);
+    expect(quote.acceptedDocHash.is_some).toEqual(false);
+
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: No active invoice to pay",
+    );
+    const accepted = simulator
+      .acceptQuote(invoiceId, docHash)
+      .invoices.lookup(invoiceId);
+    expect(accepted.state).toEqual(State.ACCEPTED);
+    expect(accepted.acceptedDocHash.value).toEqual(docHash);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: No active invoice to pay",
+    );
+    expect(() => simulator.issueQuotedInvoice(invoiceId)).toThrow(
+      "failed assert: Only the issuer can issue invoices",
+    );
+
+    simulator.switchUser(issuerKey);
+    expect(
+      simulator.issueQuotedInvoice(invoiceId).invoices.lookup(invoiceId).state,
+    ).toEqual(State.ISSUED);
+    simulator.switchUser(buyerKey);
+    const paid = simulator
+      .payInvoice(invoiceId, nativeCoin(1000n))
+      .invoices.lookup(invoiceId);
+    expect(paid.state).toEqual(State.PAID);
+    expect(paid.acceptedDocHash.value).toEqual(docHash);
+  });
+
+  it("only lets the buyer accept a quote, on the terms it was issued with", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueQuote(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    expect(() => simulator.acceptQuote(invoiceId, docHash)).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+    expect(() => simulator.issueQuotedInvoice(invoiceId)).toThrow(
+      "failed assert: Quote has not been accepted",
+    );
+
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.acceptQuote(invoiceId, randomBytes(32))).toThrow(
+      "failed assert: Quote terms don't match the document",
+    );
+    simulator.acceptQuote(invoiceId, docHash);
+    expect(() => simulator.acceptQuote(invoiceId, docHash)).toThrow(
+      "failed assert: Invoice is not an open quote",
+    );
+
+    // The issuer may still withdraw an accepted quote
+    simulator.switchUser(issuerKey);
+    expect(
+      simulator.cancelInvoice(invoiceId, "Withdrawn").invoices.lookup(invoiceId)
+        .state,
+    ).toEqual(State.CANCELLED);
+  });
+
+  it("lets the issuer cancel an unpaid invoice with a reason", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const invoice = simulator
+      .cancelInvoice(invoiceId, "Issued in error")
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.CANCELLED);
+    expect(invoice.cancelReason.is_some).toEqual(true);
+    expect(invoice.cancelReason.value).toEqual("Issued in error");
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: No active invoice to pay",
+    );
+    expect(() => simulator.cancelInvoice(invoiceId, "Again")).toThrow(
+      "failed assert: Only an unpaid invoice can be cancelled",
+    );
+  });
+
+  it("doesn't cancel an invoice that has received payments", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(() => simulator.cancelInvoice(invoiceId, "Too late")).toThrow(
+      "failed assert: Only an unpaid invoice can be cancelled",
+    );
+    simulator.setBlockTime(dueAt + 1n);
+    simulator.markOverdue(invoiceId);
+    expect(() => simulator.cancelInvoice(invoiceId, "Too late")).toThrow(
+      "failed assert: Can't cancel an invoice that has received payments",
+    );
+  });
+
+  it("only lets the issuer cancel an invoice", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.cancelInvoice(invoiceId, "Not wanted")).toThrow(
+      "failed assert: Only an issuer or canceller can cancel invoices",
+    );
+  });
+
+  it("sends payments to the payee a receivable was assigned to", () => {
+    const invoiceId = randomBytes(32);
+    const factor = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const issuerPayee = simulator.getLedger().invoices.lookup(invoiceId).payee;
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    const ledgerState = simulator.assignReceivable(invoiceId, factor);
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.payee.bytes).toEqual(factor);
+    expect(invoice.assignments).toEqual(1n);
+    const assignment = ledgerState.assignments.lookup(
+      simulator.assignmentKey(invoiceId, invoice.sequence, 1n),
+    );
+    expect(assignment.sequence).toEqual(invoice.sequence);
+    expect(assignment.from).toEqual(issuerPayee);
+    expect(assignment.to.bytes).toEqual(factor);
+
+    simulator.payInvoice(invoiceId, nativeCoin(600n));
+    const outputs = simulator.circuitContext.currentZswapLocalState.outputs;
+    const sent = outputs.filter(({ recipient }) => recipient.is_left);
+    expect(sent.at(-1)?.coinInfo.value).toEqual(600n);
+    expect(sent.at(-1)?.recipient.left.bytes).toEqual(factor);
+  });
+
+  it("keeps the assignment history of an invoice id that is issued again", () => {
+    const invoiceId = randomBytes(32);
+    const firstFactor = randomBytes(32);
+    const secondFactor = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const firstSequence = simulator
+      .assignReceivable(invoiceId, firstFactor)
+      .invoices.lookup(invoiceId).sequence;
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.resetInvoice(invoiceId);
+
+    simulator.issueInvoice(
+      invoiceId,
+      500n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const ledgerState = simulator.assignReceivable(invoiceId, secondFactor);
+    const secondSequence = ledgerState.invoices.lookup(invoiceId).sequence;
+    expect(
+      ledgerState.assignments.lookup(
+        simulator.assignmentKey(invoiceId, firstSequence, 1n),
+      ).to.bytes,
+    ).toEqual(firstFactor);
+    expect(
+      ledgerState.assignments.lookup(
+        simulator.assignmentKey(invoiceId, secondSequence, 1n),
+      ).to.bytes,
+    ).toEqual(secondFactor);
+  });
+
+  it("only lets the issuer assign a receivable that is still unpaid", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    const payee = simulator.getLedger().invoices.lookup(invoiceId).payee;
+    expect(() => simulator.assignReceivable(invoiceId, payee.bytes)).toThrow(
+      "failed assert: Receivable is already payable to this payee",
+    );
+    simulator.switchUser(buyerKey);
+    expect(() =>
+      simulator.assignReceivable(invoiceId, randomBytes(32)),
+    ).toThrow("failed assert: Only the issuer can assign receivables");
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.switchUser(issuerKey);
+    expect(() =>
+      simulator.assignReceivable(invoiceId, randomBytes(32)),
+    ).toThrow("failed assert: Only an unpaid invoice can be assigned");
+  });
+
+  it("keeps a hash chain of the revisions of an invoice", () => {
+    const invoiceId = randomBytes(32);
+    const secondDocHash = randomBytes(32);
+    const thirdDocHash = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.reviseInvoice(invoiceId, 1200n, secondDocHash);
+    const ledgerState = simulator.reviseInvoice(invoiceId, 1100n, thirdDocHash);
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.amount).toEqual(1100n);
+    expect(invoice.docHash).toEqual(thirdDocHash);
+    expect(invoice.revision).toEqual(2n);
+    expect(invoice.acknowledged).toEqual(false);
+
+    const second = ledgerState.revisions.lookup(invoice.previousRevision.value);
+    expect(second.revision).toEqual(1n);
+    expect(second.amount).toEqual(1200n);
+    expect(second.docHash).toEqual(secondDocHash);
+    const first = ledgerState.revisions.lookup(second.previous.value);
+    expect(first.revision).toEqual(0n);
+    expect(first.amount).toEqual(1000n);
+    expect(first.docHash).toEqual(docHash);
+    expect(first.previous.is_some).toEqual(false);
+
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1100n))).toThrow(
+      "failed assert: The buyer has not acknowledged the latest revision",
+    );
+    expect(() =>
+      simulator.acknowledgeRevision(invoiceId, secondDocHash),
+    ).toThrow("failed assert: Revision doesn't match the document");
+    simulator.acknowledgeRevision(invoiceId, thirdDocHash);
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(1100n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("only lets the issuer revise an unpaid invoice above the amount paid", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    expect(() => simulator.reviseInvoice(invoiceId, 1200n, docHash)).toThrow(
+      "failed assert: Revision must change the document",
+    );
+    simulator.switchUser(buyerKey);
+    expect(() =>
+      simulator.reviseInvoice(invoiceId, 1200n, randomBytes(32)),
+    ).toThrow("failed assert: Only the issuer can revise invoices");
+    expect(() => simulator.acknowledgeRevision(invoiceId, docHash)).toThrow(
+      "failed assert: No revision to acknowledge",
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    simulator.switchUser(issuerKey);
+    expect(() =>
+      simulator.reviseInvoice(invoiceId, 400n, randomBytes(32)),
+    ).toThrow(
+      "failed assert: Revised amount must exceed the amount paid so far",
+    );
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(600n));
+    simulator.switchUser(issuerKey);
+    expect(() =>
+      simulator.reviseInvoice(invoiceId, 1200n, randomBytes(32)),
+    ).toThrow("failed assert: Only an unpaid invoice can be revised");
+  });
+
+  it("reduces the outstanding amount of an unpaid invoice by a credit note", () => {
+    const invoiceId = randomBytes(32);
+    const creditNoteId = randomBytes(32);
+    const creditNoteHash = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    const ledgerState = simulator.issueCreditNote(
+      creditNoteId,
+      invoiceId,
+      100n,
+      creditNoteHash,
+      "Billed one hour too many",
+    );
+    expect(ledgerState.creditNotes.lookup(creditNoteId)).toEqual({
+      invoiceId,
+      sequence: 2n,
+      invoiceDocHash: docHash,
+      amount: 100n,
+      docHash: creditNoteHash,
+      reason: "Billed one hour too many",
+    });
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.amount).toEqual(900n);
+    expect(invoice.state).toEqual(State.PARTIALLY_PAID);
+    expect(() =>
+      simulator.issueCreditNote(
+        creditNoteId,
+        invoiceId,
+        100n,
+        creditNoteHash,
+        "Again",
+      ),
+    ).toThrow("failed assert: Credit note already issued");
+    expect(() =>
+      simulator.issueCreditNote(
+        randomBytes(32),
+        invoiceId,
+        600n,
+        creditNoteHash,
+        "Too much",
+      ),
+    ).toThrow("failed assert: Credit note exceeds the outstanding amount");
+    // Crediting the rest settles the invoice
+    expect(
+      simulator
+        .issueCreditNote(
+          randomBytes(32),
+          invoiceId,
+          500n,
+          creditNoteHash,
+          "Project cut short",
+        )
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("records a credit note against a paid invoice without changing it", () => {
+    const invoiceId = randomBytes(32);
+    const creditNoteId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    const ledgerState = simulator.issueCreditNote(
+      creditNoteId,
+      invoiceId,
+      250n,
+      randomBytes(32),
+      "Discount applied late",
+    );
+    expect(ledgerState.creditNotes.member(creditNoteId)).toEqual(true);
+    expect(ledgerState.invoices.lookup(invoiceId).amount).toEqual(1000n);
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.PAID);
+    // The credit note outlives the invoice it corrects
+    expect(
+      simulator.resetInvoice(invoiceId).creditNotes.member(creditNoteId),
+    ).toEqual(true);
+  });
+
+  it("keeps the credit notes against a paid invoice within the amount paid", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.issueCreditNote(
+      randomBytes(32),
+      invoiceId,
+      600n,
+      randomBytes(32),
+      "Overbilled hours",
+    );
+    expect(() =>
+      simulator.issueCreditNote(
+        randomBytes(32),
+        invoiceId,
+        600n,
+        randomBytes(32),
+        "Overbilled hours again",
+      ),
+    ).toThrow("failed assert: Credit notes exceed the amount paid");
+    const ledgerState = simulator.issueCreditNote(
+      randomBytes(32),
+      invoiceId,
+      400n,
+      randomBytes(32),
+      "Remaining overbilling",
+    );
+    expect(ledgerState.invoices.lookup(invoiceId).credited).toEqual(1000n);
+    expect(ledgerState.creditNotes.size()).toEqual(2n);
+  });
+
+  it("only lets the issuer credit an invoice, and not all of an unpaid one", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    expect(() =>
+      simulator.issueCreditNote(
+        randomBytes(32),
+        invoiceId,
+        1000n,
+        randomBytes(32),
+        "Not wanted",
+      ),
+    ).toThrow(
+      "failed assert: Cancel the invoice instead of crediting all of it",
+    );
+    simulator.switchUser(buyerKey);
+    expect(() =>
+      simulator.issueCreditNote(
+        randomBytes(32),
+        invoiceId,
+        100n,
+        randomBytes(32),
+        "Discount",
+      ),
+    ).toThrow("failed assert: Only the issuer can issue credit notes");
+  });
+
+  it("lets the buyer dispute a paid invoice and withdraw the dispute", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.openDispute(invoiceId, "Not delivered")).toThrow(
+      "failed assert: Only a paid invoice can be disputed",
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.openDispute(invoiceId, "Not delivered")).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+    simulator.switchUser(buyerKey);
+    const invoice = simulator
+      .openDispute(invoiceId, "Not delivered")
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.DISPUTED);
+    expect(invoice.disputeReason.value).toEqual("Not delivered");
+    expect(invoice.refundTo.is_some).toEqual(true);
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.resetInvoice(invoiceId)).toThrow(
+      "failed assert: Can only reset a paid, cancelled or refunded invoice",
+    );
+    expect(() => simulator.resolveDispute(invoiceId)).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+    simulator.switchUser(buyerKey);
+    expect(
+      simulator.resolveDispute(invoiceId).invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("lets the issuer refund the amount paid on a disputed invoice", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(() => simulator.refund(invoiceId, nativeCoin(400n))).toThrow(
+      "failed assert: Only the issuer can refund invoices",
+    );
+    simulator.openDispute(invoiceId, "Wrong service");
+    const refundTo = simulator.getLedger().invoices.lookup(invoiceId)
+      .refundTo.value;
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.refund(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Refund does not match the amount paid",
+    );
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    const invoice = simulator
+      .refund(invoiceId, nativeCoin(400n))
+      .invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.REFUNDED);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(400n);
+    expect(sent?.recipient.left).toEqual(refundTo);
+    expect(() => simulator.refund(invoiceId, nativeCoin(400n))).toThrow(
+      "failed assert: Invoice is not disputed",
+    );
+  });
+
+  it("refunds what was charged for a discounted payment", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoiceWithTerms(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+      { discount: 200n, discountUntil: dueAt - 500n, lateFee: 150n },
+    );
+    const invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(980n), 1000n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.paidAmount).toEqual(1000n);
+    expect(invoice.chargedAmount).toEqual(980n);
+    simulator.openDispute(invoiceId, "Not delivered");
+    // The discount was never paid, so it isn't refunded either
+    expect(() => simulator.refund(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Refund does not match the amount paid",
+    );
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    expect(
+      simulator.refund(invoiceId, nativeCoin(980n)).invoices.lookup(invoiceId)
+        .state,
+    ).toEqual(State.REFUNDED);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(980n);
+  });
+
+  it("refunds the late fee along with a late payment", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.setBlockTime(dueAt - 1000n);
+    simulator.issueInvoiceWithTerms(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+      { discount: 0n, discountUntil: 0n, lateFee: 150n },
+    );
+    simulator.payInvoice(invoiceId, nativeCoin(400n), 400n);
+    simulator.setBlockTime(dueAt + 1n);
+    const invoice = simulator
+      .payInvoice(invoiceId, nativeCoin(609n), 600n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.paidAmount).toEqual(1000n);
+    expect(invoice.chargedAmount).toEqual(1009n);
+    simulator.openDispute(invoiceId, "Not delivered");
+    expect(() => simulator.refund(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Refund does not match the amount paid",
+    );
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    expect(
+      simulator.refund(invoiceId, nativeCoin(1009n)).invoices.lookup(invoiceId)
+        .state,
+    ).toEqual(State.REFUNDED);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(1009n);
+  });
+
+  it("issues the next cycle of a subscription once a cycle is paid", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const period = 30n * 24n * 60n * 60n;
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    let ledgerState = simulator.createSubscription(
+      invoiceId,
+      1000n,
+      docHash,
+      payerCommitment,
+      dueAt,
+      period,
+      2n,
+    );
+    const number = ledgerState.invoices.lookup(invoiceId).number;
+    expect(ledgerState.invoices.lookup(invoiceId).cycle).toEqual(1n);
+    expect(ledgerState.subscriptions.lookup(invoiceId)).toEqual({
+      period,
+      count: 2n,
+      cycle: 1n,
+      amount: 1000n,
+    });
+    simulator.switchUser(buyerKey);
+    // An installment doesn't end the cycle
+    ledgerState = simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(
+      State.PARTIALLY_PAID,
+    );
+    ledgerState = simulator.payInvoice(invoiceId, nativeCoin(600n));
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.ISSUED);
+    expect(invoice.sequence).toEqual(3n);
+    // The ledger keeps the first cycle's number and counts the cycle alongside it
+    expect(invoice.number).toEqual(number);
+    expect(invoice.cycle).toEqual(2n);
+    expect(invoice.paidAmount).toEqual(0n);
+    expect(invoice.dueAt).toEqual(dueAt + period);
+    expect(invoice.buyerPk).toEqual(payerCommitment);
+    expect(ledgerState.subscriptions.lookup(invoiceId).cycle).toEqual(2n);
+    // The last cycle stays paid
+    ledgerState = simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.PAID);
+    expect(ledgerState.invoices.lookup(invoiceId).sequence).toEqual(3n);
+    simulator.switchUser(issuerKey);
+    ledgerState = simulator.resetInvoice(invoiceId);
+    expect(ledgerState.invoices.member(invoiceId)).toEqual(false);
+    expect(ledgerState.subscriptions.member(invoiceId)).toEqual(false);
+  });
+
+  it("stops issuing cycles of a cancelled subscription", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.createSubscription(
+      invoiceId,
+      1000n,
+      docHash,
+      payerCommitment,
+      dueAt,
+      3600n,
+      12n,
+    );
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.cancelSubscription(invoiceId)).toThrow(
+      "failed assert: Only an issuer or canceller can cancel subscriptions",
+    );
+    simulator.switchUser(issuerKey);
+    expect(
+      simulator.cancelSubscription(invoiceId).subscriptions.member(invoiceId),
+    ).toEqual(false);
+    expect(() => simulator.cancelSubscription(invoiceId)).toThrow(
+      "failed assert: No such subscription",
+    );
+    simulator.switchUser(buyerKey);
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(1000n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("rejects a subscription without cycles", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    expect(() =>
+      simulator.createSubscription(
+        invoiceId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+        3600n,
+        0n,
+      ),
+    ).toThrow("failed assert: Subscription must have at least one cycle");
+  });
+
+  it("releases an escrowed payment milestone by milestone", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueEscrow(invoiceId, 1000n, docHash, payerCommitment, dueAt, [
+      300n,
+      700n,
+    ]);
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Escrow invoices must be funded instead",
+    );
+    expect(() => simulator.fund(invoiceId, nativeCoin(300n))).toThrow(
+      "failed assert: Escrow must be funded with the full amount",
+    );
+    let ledgerState = simulator.fund(invoiceId, nativeCoin(1000n));
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(
+      State.ESCROWED,
+    );
+    expect(ledgerState.escrowCoins.lookup(invoiceId).value).toEqual(1000n);
+
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.releaseMilestone(invoiceId, 0n)).toThrow(
+      "failed assert: Milestone has not been approved",
+    );
+    expect(() => simulator.approveMilestone(invoiceId, 0n)).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.approveMilestone(invoiceId, 2n)).toThrow(
+      "failed assert: No such milestone",
+    );
+    simulator.approveMilestone(invoiceId, 0n);
+    expect(() => simulator.releaseMilestone(invoiceId, 0n)).toThrow(
+      "failed assert: Only the issuer can release milestones",
+    );
+
+    simulator.switchUser(issuerKey);
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    ledgerState = simulator.releaseMilestone(invoiceId, 0n);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(300n);
+    expect(ledgerState.escrows.lookup(invoiceId)[0]).toEqual({
+      amount: 300n,
+      approved: true,
+      released: true,
+    });
+    expect(ledgerState.escrowCoins.lookup(invoiceId).value).toEqual(700n);
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(
+      State.ESCROWED,
+    );
+    expect(() => simulator.releaseMilestone(invoiceId, 0n)).toThrow(
+      "failed assert: Milestone already released",
+    );
+
+    simulator.switchUser(buyerKey);
+    simulator.approveMilestone(invoiceId, 1n);
+    simulator.switchUser(issuerKey);
+    ledgerState = simulator.releaseMilestone(invoiceId, 1n);
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.PAID);
+    expect(ledgerState.escrowCoins.member(invoiceId)).toEqual(false);
+  });
+
+  it("lets the buyer reclaim an escrow the issuer hasn't released by the due date", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueEscrow(invoiceId, 1000n, docHash, payerCommitment, dueAt, [
+      300n,
+      700n,
+    ]);
+    simulator.switchUser(buyerKey);
+    simulator.fund(invoiceId, nativeCoin(1000n));
+    simulator.approveMilestone(invoiceId, 0n);
+    simulator.switchUser(issuerKey);
+    simulator.releaseMilestone(invoiceId, 0n);
+
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.reclaimEscrow(invoiceId)).toThrow(
+      "failed assert: Escrow can't be reclaimed before the due date",
+    );
+    simulator.setBlockTime(dueAt + 1n);
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.reclaimEscrow(invoiceId)).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+    simulator.switchUser(buyerKey);
+    const outputsBefore =
+      simulator.circuitContext.currentZswapLocalState.outputs.length;
+    const ledgerState = simulator.reclaimEscrow(invoiceId);
+    const sent = simulator.circuitContext.currentZswapLocalState.outputs
+      .slice(outputsBefore)
+      .find(({ recipient }) => recipient.is_left);
+    expect(sent?.coinInfo.value).toEqual(700n);
+    const invoice = ledgerState.invoices.lookup(invoiceId);
+    expect(invoice.state).toEqual(State.REFUNDED);
+    expect(sent?.recipient.left).toEqual(invoice.refundTo.value);
+    expect(ledgerState.escrowCoins.member(invoiceId)).toEqual(false);
+    expect(() => simulator.reclaimEscrow(invoiceId)).toThrow(
+      "failed assert: Invoice is not escrowed",
+    );
+  });
+
+  it("rejects milestones that don't add up to the invoice amount", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    expect(() =>
+      simulator.issueEscrow(
+        invoiceId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+        [300n, 600n],
+      ),
+    ).toThrow(
+      "failed assert: Milestone amounts must add up to the invoice amount",
+    );
+  });
+
+  it("records a receipt commitment for each payment", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    const { sequence } = simulator.getLedger().invoices.lookup(invoiceId);
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    const ledgerState = simulator.payInvoice(invoiceId, nativeCoin(600n));
+    expect(ledgerState.receipts.firstFree()).toEqual(2n);
+    for (const paidAmount of [400n, 1000n]) {
+      const commitment = simulator.receiptCommitment({
+        invoiceId,
+        sequence,
+        paidAmount,
+      });
+      expect(ledgerState.receipts.findPathForLeaf(commitment)).toBeDefined();
+    }
+  });
+
+  it("lets the buyer prove a payment with a receipt", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    const { sequence } = simulator.getLedger().invoices.lookup(invoiceId);
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    const receipt = { invoiceId, sequence, paidAmount: 1000n };
+    expect(simulator.proveReceipt(receipt)).toEqual(receipt);
+
+    // The receipt stays provable once the invoice has been removed
+    simulator.switchUser(issuerKey);
+    simulator.resetInvoice(invoiceId);
+    simulator.switchUser(buyerKey);
+    expect(simulator.proveReceipt(receipt)).toEqual(receipt);
+  });
+
+  it("doesn't prove a receipt for a payment that wasn't made", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    const { sequence } = simulator.getLedger().invoices.lookup(invoiceId);
+    simulator.switchUser(buyerKey);
+    simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(() =>
+      simulator.proveReceipt({ invoiceId, sequence, paidAmount: 1000n }),
+    ).toThrow("No such receipt");
+    simulator.switchUser(issuerKey);
+    expect(() =>
+      simulator.proveReceipt({ invoiceId, sequence, paidAmount: 400n }),
+    ).toThrow("No such receipt");
+  });
+
+  it("lets any member of a payer set pay, once each", () => {
+    const issuerKey = randomBytes(32);
+    const clerkKeys = [randomBytes(32), randomBytes(32), randomBytes(32)];
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    const commitments = clerkKeys.map((clerkKey) => {
+      simulator.switchUser(clerkKey);
+      return simulator.payerCommitment(invoiceId);
+    });
+    simulator.switchUser(issuerKey);
+    const invoice = simulator
+      .issueInvoiceToPayers(
+        invoiceId,
+        1000n,
+        docHash,
+        payerSetRoot(commitments),
+        dueAt,
+      )
+      .invoices.lookup(invoiceId);
+    expect(invoice.payersRoot).toEqual({
+      is_some: true,
+      value: payerSetRoot(commitments),
+    });
+
+    simulator.switchUser(clerkKeys[1]);
+    simulator.addPayerPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[1])!,
+    );
+    const ledgerState = simulator.payInvoice(invoiceId, nativeCoin(400n));
+    expect(ledgerState.invoices.lookup(invoiceId).paidAmount).toEqual(400n);
+    expect(
+      ledgerState.nullifiers.member(
+        simulator.paymentNullifier(invoiceId, invoice.sequence),
+      ),
+    ).toEqual(true);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(100n))).toThrow(
+      "failed assert: You have already paid this invoice",
+    );
+
+    simulator.switchUser(clerkKeys[2]);
+    simulator.addPayerPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[2])!,
+    );
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(600n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("doesn't let anyone outside the payer set pay", () => {
+    const issuerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(randomBytes(32));
+    const commitments = [simulator.payerCommitment(invoiceId)];
+    const memberPath = payerSetPath(commitments, commitments[0])!;
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoiceToPayers(
+      invoiceId,
+      1000n,
+      docHash,
+      payerSetRoot(commitments),
+      dueAt,
+    );
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+
+    // Somebody else's path doesn't help either
+    simulator.switchUser(randomBytes(32));
+    simulator.addPayerPath(invoiceId, memberPath);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: You are not the buyer for this invoice",
+    );
+  });
+
+  it("lets the buyer pay once enough approvers have signed off", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const approverKeys = [randomBytes(32), randomBytes(32), randomBytes(32)];
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    const commitments = approverKeys.map((key) => {
+      simulator.switchUser(key);
+      return simulator.approverCommitment(invoiceId);
+    });
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    const invoice = simulator
+      .requireApprovals(invoiceId, payerSetRoot(commitments), 2n)
+      .invoices.lookup(invoiceId);
+    expect(invoice.threshold).toEqual(2n);
+    expect(invoice.approvals).toEqual(0n);
+
+    simulator.switchUser(buyerKey);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Invoice has not been approved yet",
+    );
+
+    simulator.switchUser(approverKeys[0]);
+    simulator.addApproverPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[0])!,
+    );
+    expect(
+      simulator.approve(invoiceId).invoices.lookup(invoiceId).approvals,
+    ).toEqual(1n);
+    expect(() => simulator.approve(invoiceId)).toThrow(
+      "failed assert: You have already approved this invoice",
+    );
+
+    simulator.switchUser(approverKeys[2]);
+    simulator.addApproverPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[2])!,
+    );
+    expect(
+      simulator.approve(invoiceId).invoices.lookup(invoiceId).approvals,
+    ).toEqual(2n);
+
+    simulator.switchUser(approverKeys[1]);
+    simulator.addApproverPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[1])!,
+    );
+    expect(() => simulator.approve(invoiceId)).toThrow(
+      "failed assert: Invoice is already approved",
+    );
+
+    simulator.switchUser(buyerKey);
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(1000n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("only lets the approvers of an invoice approve it", () => {
+    const issuerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(randomBytes(32));
+    const commitments = [simulator.approverCommitment(invoiceId)];
+    const approverPath = payerSetPath(commitments, commitments[0])!;
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(() => simulator.approve(invoiceId)).toThrow(
+      "failed assert: Invoice does not require approvals",
+    );
+    simulator.requireApprovals(invoiceId, payerSetRoot(commitments), 1n);
+    expect(() =>
+      simulator.requireApprovals(invoiceId, payerSetRoot(commitments), 1n),
+    ).toThrow("failed assert: Approvals are already required");
+
+    // Somebody else's path doesn't help
+    simulator.switchUser(randomBytes(32));
+    simulator.addApproverPath(invoiceId, approverPath);
+    expect(() => simulator.approve(invoiceId)).toThrow(
+      "failed assert: You are not an approver for this invoice",
+    );
+    expect(() =>
+      simulator.requireApprovals(invoiceId, payerSetRoot(commitments), 1n),
+    ).toThrow("failed assert: Only the issuer can require approvals");
+  });
+
+  it("asks the approvers to sign off again on a revised invoice", () => {
+    const issuerKey = randomBytes(32);
+    const buyerKey = randomBytes(32);
+    const approverKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const revisedDocHash = randomBytes(32);
+    const simulator = new InvoiceSimulator(issuerKey);
+    simulator.switchUser(approverKey);
+    const commitments = [simulator.approverCommitment(invoiceId)];
+    simulator.switchUser(buyerKey);
+    const payerCommitment = simulator.payerCommitment(invoiceId);
+    simulator.switchUser(issuerKey);
+    simulator.issueInvoice(invoiceId, 1000n, docHash, payerCommitment, dueAt);
+    simulator.requireApprovals(invoiceId, payerSetRoot(commitments), 1n);
+    simulator.switchUser(approverKey);
+    simulator.addApproverPath(
+      invoiceId,
+      payerSetPath(commitments, commitments[0])!,
+    );
+    simulator.approve(invoiceId);
+
+    simulator.switchUser(issuerKey);
+    expect(
+      simulator
+        .reviseInvoice(invoiceId, 5000n, revisedDocHash)
+        .invoices.lookup(invoiceId).approvals,
+    ).toEqual(0n);
+    simulator.switchUser(buyerKey);
+    simulator.acknowledgeRevision(invoiceId, revisedDocHash);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(5000n))).toThrow(
+      "failed assert: Invoice has not been approved yet",
+    );
+
+    simulator.switchUser(approverKey);
+    simulator.approve(invoiceId);
+    simulator.switchUser(buyerKey);
+    expect(
+      simulator
+        .payInvoice(invoiceId, nativeCoin(5000n))
+        .invoices.lookup(invoiceId).state,
+    ).toEqual(State.PAID);
+  });
+
+  it("lets an admin grant and revoke the issuer role", () => {
+    const adminKey = randomBytes(32);
+    const staffKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(adminKey);
+    expect(simulator.getLedger().team.lookup(simulator.issuerKey())).toEqual({
+      admin: true,
+      issuer: true,
+      canceller: true,
+    });
+    simulator.switchUser(staffKey);
+    const staffMember = simulator.issuerKey();
+    expect(() => simulator.addMember(staffMember, Role.ISSUER)).toThrow(
+      "failed assert: Only an admin can manage the team",
+    );
+
+    simulator.switchUser(adminKey);
+    simulator.addMember(staffMember, Role.ISSUER);
+    expect(() => simulator.addMember(staffMember, Role.ISSUER)).toThrow(
+      "failed assert: Member already has this role",
+    );
+    simulator.switchUser(staffKey);
+    const ledgerState = simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.UNPAID);
+    expect(() => simulator.addMember(randomBytes(32), Role.ISSUER)).toThrow(
+      "failed assert: Only an admin can manage the team",
+    );
+
+    simulator.switchUser(adminKey);
+    expect(
+      simulator.removeMember(staffMember, Role.ISSUER).team.member(staffMember),
+    ).toEqual(false);
+    simulator.switchUser(staffKey);
+    expect(() =>
+      simulator.issueInvoice(
+        randomBytes(32),
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Only the issuer can issue invoices");
+  });
+
+  it("only lets a canceller cancel, and keeps the last admin", () => {
+    const adminKey = randomBytes(32);
+    const cancellerKey = randomBytes(32);
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(adminKey);
+    const admin = simulator.issuerKey();
+    simulator.switchUser(cancellerKey);
+    const canceller = simulator.issuerKey();
+    simulator.switchUser(adminKey);
+    simulator.addMember(canceller, Role.CANCELLER);
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+
+    simulator.switchUser(cancellerKey);
+    expect(() =>
+      simulator.issueInvoice(
+        randomBytes(32),
+        1000n,
+        docHash,
+        simulator.payerCommitment(invoiceId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Only the issuer can issue invoices");
+    expect(
+      simulator.cancelInvoice(invoiceId, "Duplicate").invoices.lookup(invoiceId)
+        .state,
+    ).toEqual(State.CANCELLED);
+
+    simulator.switchUser(adminKey);
+    expect(() => simulator.removeMember(admin, Role.ADMIN)).toThrow(
+      "failed assert: The last admin can't be removed",
+    );
+    expect(() => simulator.removeMember(canceller, Role.ADMIN)).toThrow(
+      "failed assert: Member doesn't have this role",
+    );
+    simulator.addMember(canceller, Role.ADMIN);
+    expect(simulator.getLedger().admins).toEqual(2n);
+    simulator.removeMember(admin, Role.ADMIN);
+    expect(() => simulator.addMember(admin, Role.ADMIN)).toThrow(
+      "failed assert: Only an admin can manage the team",
+    );
+    simulator.switchUser(cancellerKey);
+    expect(() => simulator.removeMember(canceller, Role.ADMIN)).toThrow(
+      "failed assert: The last admin can't be removed",
+    );
+  });
+
+  it("blocks issuing and paying invoices while paused", () => {
+    const invoiceId = randomBytes(32);
+    const simulator = new InvoiceSimulator(randomBytes(32));
+    simulator.issueInvoice(
+      invoiceId,
+      1000n,
+      docHash,
+      simulator.payerCommitment(invoiceId),
+      dueAt,
+    );
+    expect(simulator.pause().paused).toEqual(true);
+    expect(() => simulator.payInvoice(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Contract is paused",
+    );
+    const otherId = randomBytes(32);
+    expect(() =>
+      simulator.issueInvoice(
+        otherId,
+        1000n,
+        docHash,
+        simulator.payerCommitment(otherId),
+        dueAt,
+      ),
+    ).toThrow("failed assert: Contract is paused");
+    // Nothing else that issues or moves funds gets past the pause either
+    expect(() => simulator.issueQuotedInvoice(invoiceId)).toThrow(
+      "failed assert: Contract is paused",
+    );
+    expect(() => simulator.fund(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Contract is paused",
+    );
+    expect(() => simulator.releaseMilestone(invoiceId, 0n)).toThrow(
+      "failed assert: Contract is paused",
+    );
+    expect(() => simulator.reclaimEscrow(invoiceId)).toThrow(
+      "failed assert: Contract is paused",
+    );
+    expect(() =>
+      simulator.assignReceivable(invoiceId, randomBytes(32)),
+    ).toThrow("failed assert: Contract is paused");
+    expect(() => simulator.refund(invoiceId, nativeCoin(1000n))).toThrow(
+      "failed assert: Contract is paused",
+    );
+    expect(() =>
+      simulator.issueCreditNote(
+        randomBytes(32),
+        invoiceId,
+        100n,
+        docHash,
+        "Overcharged",
+      ),
+    ).toThrow("failed assert: Contract is paused");
+
+    expect(simulator.unpause().paused).toEqual(false);
+    const ledgerState = simulator.payInvoice(invoiceId, nativeCoin(1000n));
+    expect(ledgerState.invoices.lookup(invoiceId).state).toEqual(State.PAID);
+  });
+
+  it("only lets an admin pause and unpause the contract", () => {
+    const adminKey = randomBytes(32);
+    const issuerKey = randomBytes(32);
+    const simulator = new InvoiceSimulator(adminKey);
+    simulator.switchUser(issuerKey);
+    const issuer = simulator.issuerKey();
+    simulator.switchUser(adminKey);
+    simulator.addMember(issuer, Role.ISSUER);
+    expect(() => simulator.unpause()).toThrow(
+      "failed assert: Contract is not paused",
+    );
+
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.pause()).toThrow(
+      "failed assert: Only an admin can pause the contract",
+    );
+    simulator.switchUser(adminKey);
+    simulator.pause();
+    expect(() => simulator.pause()).toThrow(
+      "failed assert: Contract is already paused",
+    );
+    simulator.switchUser(issuerKey);
+    expect(() => simulator.unpause()).toThrow(
+      "failed assert: Only an admin can unpause the contract",
+    );
+  });
+});
@@ -11,3 +11,27 @@ export const randomBytes = (length: number): Uint8Array => {
   crypto.getRandomValues(bytes);
   return bytes;
 };
+
+/** The token type of the native token, as the simulator's `nativeToken()` returns it. */
+export const nativeTokenType = new Uint8Array(32);
+
+/**
+ * Builds a coin of the given token type with the given value, as a wallet would hand it to a circuit.
+ *
+ * @param color The token type of the coin.
+ * @param value The value of the coin.
+ * @returns A coin with a random nonce.
+ */
+export const tokenCoin = (color: Uint8Array, value: bigint) => ({
+  nonce: randomBytes(32),
+  color,
+  value,
+});
+
+/**
+ * Builds a coin of the native token with the given value, as a wallet would hand it to a circuit.
+ *
+ * @param value The value of the coin.
+ * @returns A coin with a random nonce.
+ */
+export const nativeCoin = (value: bigint) => tokenCoin(nativeTokenType, value);
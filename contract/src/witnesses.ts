@@ -18,25 +18,204 @@
  * as well as the single witness function that accesses it.
  */
 
-import { Ledger } from "./managed/invoice/contract/index.cjs";
-import { WitnessContext } from "@midnight-ntwrk/compact-runtime";
+import {
+  Ledger,
+  PayeeShare,
+  Receipt,
+} from "./managed/invoice/contract/index.cjs";
+import {
+  CompactTypeBytes,
+  CompactTypeMerkleTreeDigest,
+  CompactTypeMerkleTreePath,
+  MerkleTreeDigest,
+  MerkleTreePath,
+  StateBoundedMerkleTree,
+  WitnessContext,
+} from "@midnight-ntwrk/compact-runtime";
 
 /* **********************************************************************
- * The only hidden state needed by the invoice contract is
+ * The only hidden state needed by the invoice contract itself is
  * the user's secret key (used for buyer authentication in ZK).
+ * Receipts the buyer has exported are kept as well, so that a payment
+ * can be proven later, even after the invoice has been removed. So are
+ * the Merkle paths that show the user belongs to the set of payers of
+ * an invoice, keyed by the hex-encoded invoice id, and likewise the paths
+ * that show the user belongs to the set of approvers of an invoice. Older
+ * private states may not have any receipts, payer paths or approver paths.
+ * Alongside it the DApp keeps the invoice documents it knows about,
+ * keyed by the hex-encoded document hash recorded on the ledger. The
+ * documents are never passed to a circuit; they live here so that the
+ * private state provider persists them with the secret key. Private
+ * states made before documents were kept off-chain have no store.
+ * The same goes for the key pair that invoice documents published on the
+ * ledger are encrypted to. It is created the first time the DApp needs
+ * it, so older private states may not have one.
+ * A member of the issuer's team acts with a member key of their own, kept
+ * apart from the secret key they pay invoices with. Private states made
+ * before teams were introduced have none, and use the secret key instead.
  * Some of the library code and compiler-generated code is parameterized
  * by the type of our private state, so we define a type for it and
  * a function to make an object of that type.
  */
 
+export type InvoiceEncryptionKeys = {
+  readonly publicKey: Uint8Array;
+  readonly secretKey: Uint8Array;
+};
+
 export type InvoicePrivateState = {
   readonly secretKey: Uint8Array;
+  readonly documents?: Readonly<Record<string, string>>;
+  readonly receipts?: readonly Receipt[];
+  readonly payerPaths?: Readonly<Record<string, MerkleTreePath<Uint8Array>>>;
+  readonly encryptionKeys?: InvoiceEncryptionKeys;
+  readonly approverPaths?: Readonly<Record<string, MerkleTreePath<Uint8Array>>>;
+  readonly memberKey?: Uint8Array;
 };
 
-export const createInvoicePrivateState = (secretKey: Uint8Array) => ({
+export const createInvoicePrivateState = (
+  secretKey: Uint8Array,
+  documents: Readonly<Record<string, string>> = {},
+  receipts: readonly Receipt[] = [],
+  payerPaths: Readonly<Record<string, MerkleTreePath<Uint8Array>>> = {},
+  encryptionKeys?: InvoiceEncryptionKeys,
+  memberKey?: Uint8Array,
+): InvoicePrivateState => ({
   secretKey,
+  documents,
+  receipts,
+  payerPaths,
+  encryptionKeys,
+  memberKey,
+});
+
+/* **********************************************************************
+ * An invoice can be issued to a set of payers instead of a single buyer.
+ * The issuer records the root of a Merkle tree of their payer commitments,
+ * of the depth declared by the payerPath witness, and each payer proves
+ * membership with the path to their own commitment. The tree is built
+ * off-chain in the same way as a MerkleTree on the ledger.
+ * The set of approvers that must sign off on an invoice before it can be
+ * paid is built in the same way, from approver commitments.
+ */
+
+export const PAYER_SET_DEPTH = 4;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const commitmentType = new CompactTypeBytes(32);
+
+const payerSetTree = (
+  commitments: readonly Uint8Array[],
+): StateBoundedMerkleTree => {
+  if (commitments.length > 2 ** PAYER_SET_DEPTH) {
+    throw new Error(
+      `A payer set holds at most ${2 ** PAYER_SET_DEPTH} payer commitments`,
+    );
+  }
+  return commitments.reduce(
+    (tree, commitment, index) =>
+      tree.update(BigInt(index), {
+        value: commitmentType.toValue(commitment),
+        alignment: commitmentType.alignment(),
+      }),
+    new StateBoundedMerkleTree(PAYER_SET_DEPTH),
+  );
+};
+
+export const payerSetRoot = (
+  commitments: readonly Uint8Array[],
+): MerkleTreeDigest =>
+  new CompactTypeMerkleTreeDigest().fromValue([
+    ...payerSetTree(commitments).root(),
+  ]);
+
+export const payerSetPath = (
+  commitments: readonly Uint8Array[],
+  commitment: Uint8Array,
+): MerkleTreePath<Uint8Array> | undefined => {
+  const index = commitments.findIndex(
+    (member) => toHex(member) === toHex(commitment),
+  );
+  if (index < 0) {
+    return undefined;
+  }
+  const path = payerSetTree(commitments).pathForLeaf(BigInt(index), {
+    value: commitmentType.toValue(commitment),
+    alignment: commitmentType.alignment(),
+  });
+  return new CompactTypeMerkleTreePath(
+    PAYER_SET_DEPTH,
+    commitmentType,
+  ).fromValue([...path.value]);
+};
+
+/* A path that proves nothing, handed to invoices without a payer set. */
+const emptyPayerPath = (): MerkleTreePath<Uint8Array> => ({
+  leaf: new Uint8Array(32),
+  path: Array.from({ length: PAYER_SET_DEPTH }, () => ({
+    sibling: { field: 0n },
+    goes_left: false,
+  })),
 });
 
+/* **********************************************************************
+ * A payment can be split between up to MAX_PAYEES payees, each taking
+ * a share given in basis points. The contract keeps a fixed size table,
+ * so unused rows are padded with a zero share; an invoice that isn't
+ * split still passes a table, of zero shares only. Compact has no division,
+ * so the splitShare witness works out each payee's portion of a payment
+ * off-chain and the contract checks it.
+ */
+
+export const MAX_PAYEES = 4;
+
+export const BASIS_POINTS = 10000n;
+
+export const payeeSplitTable = (
+  shares: readonly PayeeShare[],
+): PayeeShare[] => {
+  if (shares.length > MAX_PAYEES) {
+    throw new Error(
+      `A payment can be split between at most ${MAX_PAYEES} payees`,
+    );
+  }
+  if (
+    shares.length > 0 &&
+    shares.reduce((total, { share }) => total + share, 0n) !== BASIS_POINTS
+  ) {
+    throw new Error("Payee shares must add up to 100%");
+  }
+  return [
+    ...shares,
+    ...Array.from({ length: MAX_PAYEES - shares.length }, () => ({
+      payee: { bytes: new Uint8Array(32) },
+      share: 0n,
+    })),
+  ];
+};
+
+/* **********************************************************************
+ * An escrow invoice is released in up to MAX_MILESTONES milestones. Like
+ * the payee split, the contract keeps a fixed size table of milestone
+ * amounts, padded with zero amounts.
+ */
+
+export const MAX_MILESTONES = 4;
+
+export const milestoneTable = (amounts: readonly bigint[]): bigint[] => {
+  if (amounts.length === 0 || amounts.length > MAX_MILESTONES) {
+    throw new Error(
+      `An escrow is released in between 1 and ${MAX_MILESTONES} milestones`,
+    );
+  }
+  return [
+    ...amounts,
+    ...Array.from({ length: MAX_MILESTONES - amounts.length }, () => 0n),
+  ];
+};
+
 /* **********************************************************************
  * The witnesses object for the invoice contract is an object
  * with a field for each witness function, mapping the name of the function
@@ -61,7 +240,19 @@ export const createInvoicePrivateState = (secretKey: Uint8Array) => ({
  *
  * The localSecretKey witness does not need the ledger or contractAddress
  * from the WitnessContext, so it uses the parameter notation that puts
- * only the binding for the privateState in scope.
+ * only the binding for the privateState in scope. Neither does the
+ * localMemberKey witness, which falls back to the secret key. The
+ * receiptPath witness looks the commitment up in the receipts tree of the
+ * ledger instead.
+ *
+ * The payerPath witness is called for every invoice, so it falls back to
+ * an empty path when the user holds none for the invoice; the contract
+ * only looks at it for invoices issued to a set of payers. The approverPath
+ * witness falls back in the same way.
+ *
+ * The splitShare witness needs no state at all; it rounds down, and the
+ * contract hands the remainder to the first payee. The contract uses it
+ * for early-payment discounts and late fees as well.
  */
 export const witnesses = {
   localSecretKey: ({
@@ -70,4 +261,47 @@ export const witnesses = {
     InvoicePrivateState,
     Uint8Array,
   ] => [privateState, privateState.secretKey],
+
+  localMemberKey: ({
+    privateState,
+  }: WitnessContext<Ledger, InvoicePrivateState>): [
+    InvoicePrivateState,
+    Uint8Array,
+  ] => [privateState, privateState.memberKey ?? privateState.secretKey],
+
+  payerPath: (
+    { privateState }: WitnessContext<Ledger, InvoicePrivateState>,
+    invoiceId: Uint8Array,
+  ): [InvoicePrivateState, MerkleTreePath<Uint8Array>] => [
+    privateState,
+    privateState.payerPaths?.[toHex(invoiceId)] ?? emptyPayerPath(),
+  ],
+
+  approverPath: (
+    { privateState }: WitnessContext<Ledger, InvoicePrivateState>,
+    invoiceId: Uint8Array,
+  ): [InvoicePrivateState, MerkleTreePath<Uint8Array>] => [
+    privateState,
+    privateState.approverPaths?.[toHex(invoiceId)] ?? emptyPayerPath(),
+  ],
+
+  splitShare: (
+    { privateState }: WitnessContext<Ledger, InvoicePrivateState>,
+    value: bigint,
+    share: bigint,
+  ): [InvoicePrivateState, bigint] => [
+    privateState,
+    (value * share) / BASIS_POINTS,
+  ],
+
+  receiptPath: (
+    { privateState, ledger }: WitnessContext<Ledger, InvoicePrivateState>,
+    commitment: Uint8Array,
+  ): [InvoicePrivateState, MerkleTreePath<Uint8Array>] => {
+    const path = ledger.receipts.findPathForLeaf(commitment);
+    if (path === undefined) {
+      throw new Error("No such receipt");
+    }
+    return [privateState, path];
+  },
 };